@@ -0,0 +1,27 @@
+/**
+ * Lucid Agent
+ *
+ * The agent served by this process, driven by the model in AI_CONFIG;
+ * undefined when no OpenAI key is configured.
+ */
+
+import type { Agent } from '@daydreamsai/core';
+import { createConfiguredModel, createSandboxAgent } from './sandbox-agent.js';
+
+const model = createConfiguredModel();
+
+export const sandboxAgent: Agent | undefined = model ? createSandboxAgent({ model }) : undefined;
+
+export {
+  createSandboxAgent,
+  createConfiguredModel,
+  runSandboxTask,
+  sandboxContext,
+  executeCodeAction,
+  dropInvalidActionCalls,
+  ModelUnavailableError,
+  type SandboxAgentOptions,
+  type AgentRunResult,
+  type ExecuteCodeResult,
+} from './sandbox-agent.js';
+export { createAgentManifest, type AgentManifest, type AgentEntrypoint, type AgentSkill } from './manifest.js';
@@ -0,0 +1,177 @@
+/**
+ * Agent Manifest
+ *
+ * Document served at /.well-known/agent.json for agent discovery: who the
+ * agent is, its entrypoints with their prices, the skills of the Lucid
+ * agent and the payment networks it accepts. Prices come from the same
+ * configuration the endpoints charge by.
+ */
+
+import { getZodJsonSchema } from '@daydreamsai/core';
+import { CONFIG } from '../lib/config.js';
+import { TIER_LIMITS } from '../lib/sandbox.js';
+import { runtimeRegistry } from '../lib/runtimes/index.js';
+import { paymentNetworks, type PaymentNetwork } from '../lib/networks/index.js';
+import type { PricingTier } from '../lib/pricing.js';
+import { createExecuteOutputSchema } from '../lib/execute-schema.js';
+import { executeCodeAction } from './sandbox-agent.js';
+
+const PRICING_TIERS = Object.keys(CONFIG.pricing) as PricingTier[];
+
+/**
+ * How an entrypoint is paid for
+ * - x402: X-PAYMENT header on each call
+ * - credit: prepaid account API key
+ */
+export type EntrypointPayment = 'x402' | 'credit';
+
+/**
+ * Price of one tier, in USDC: what an x402 payment moves, and the most
+ * prepaid credit is charged for measured usage
+ */
+export interface TierPrice {
+  maxPrice: number;
+  baseFee: number;
+  timeout: number;
+  memory: number;
+}
+
+export interface AgentEntrypoint {
+  method: 'GET' | 'POST';
+  path: string;
+  description: string;
+  payment: EntrypointPayment[];
+  price?: {
+    currency: string;
+    tiers?: Record<PricingTier, TierPrice>; // charged per execution
+    minimum?: number;                       // fixed amounts, e.g. deposits
+  };
+  streaming?: boolean;
+  input?: unknown;
+}
+
+export interface AgentSkill {
+  name: string;
+  description?: string;
+  inputSchema: unknown;
+}
+
+export interface AgentManifest {
+  name: string;
+  description: string;
+  version: string;
+  url: string;
+  capabilities: {
+    languages: string[];
+    streaming: boolean;
+    asyncJobs: boolean;
+    mcp: boolean;
+    agent: boolean; // natural-language runs, needs a configured model
+  };
+  entrypoints: Record<string, AgentEntrypoint>;
+  skills: AgentSkill[];
+  payments: {
+    protocol: 'x402';
+    scheme: 'exact';
+    token: string;
+    profile: string;
+    networks: PaymentNetwork[];
+    metering: {
+      appliesTo: EntrypointPayment[];
+      cpuPerSecond: number;
+      memoryPerGBSecond: number;
+    };
+  };
+}
+
+function tierPrices(): Record<PricingTier, TierPrice> {
+  return Object.fromEntries(PRICING_TIERS.map((tier) => [tier, {
+    maxPrice: CONFIG.pricing[tier],
+    baseFee: CONFIG.metering.baseFee[tier],
+    timeout: TIER_LIMITS[tier].timeout,
+    memory: TIER_LIMITS[tier].memory,
+  }])) as Record<PricingTier, TierPrice>;
+}
+
+/**
+ * Build the manifest
+ *
+ * @param url - Public origin of the agent
+ * @param agentEnabled - Whether POST /api/agent has a model to run with
+ */
+export function createAgentManifest(url: string, agentEnabled: boolean): AgentManifest {
+  const currency = CONFIG.x402.paymentToken;
+
+  return {
+    name: CONFIG.agent.name,
+    description: CONFIG.agent.description,
+    version: CONFIG.agent.version,
+    url,
+    capabilities: {
+      languages: runtimeRegistry.languages(),
+      streaming: true,
+      asyncJobs: true,
+      mcp: true,
+      agent: agentEnabled,
+    },
+    entrypoints: {
+      execute: {
+        method: 'POST',
+        path: '/api/execute',
+        description: 'Execute code in the sandbox and return its output with a signed proof',
+        payment: ['x402', 'credit'],
+        price: { currency, tiers: tierPrices() },
+        streaming: true,
+        input: createExecuteOutputSchema().input,
+      },
+      agent: {
+        method: 'POST',
+        path: '/api/agent',
+        description: 'Solve a task in natural language, running code in the sandbox as needed',
+        payment: ['credit'],
+        price: { currency, tiers: tierPrices() },
+        input: {
+          task: 'Task in natural language',
+          tier: `Default tier of the run's executions (${PRICING_TIERS.join(', ')})`,
+        },
+      },
+      mcp: {
+        method: 'POST',
+        path: '/mcp',
+        description: 'MCP tools execute_code, get_execution and get_pricing over streamable HTTP',
+        payment: ['x402', 'credit'],
+        price: { currency, tiers: tierPrices() },
+      },
+      deposit: {
+        method: 'POST',
+        path: '/api/account/deposit',
+        description: 'Deposit prepaid credit; the first deposit returns an API key',
+        payment: ['x402'],
+        price: { currency, minimum: CONFIG.accounts.minDeposit },
+      },
+      status: {
+        method: 'GET',
+        path: '/api/status',
+        description: 'Capabilities, pricing and accepted networks',
+        payment: [],
+      },
+    },
+    skills: [{
+      name: executeCodeAction.name,
+      description: executeCodeAction.description,
+      inputSchema: getZodJsonSchema(executeCodeAction.schema),
+    }],
+    payments: {
+      protocol: 'x402',
+      scheme: 'exact',
+      token: currency,
+      profile: CONFIG.networks.profile,
+      networks: paymentNetworks.describe(),
+      metering: {
+        appliesTo: ['x402', 'credit'],
+        cpuPerSecond: CONFIG.metering.cpuPerSecond,
+        memoryPerGBSecond: CONFIG.metering.memoryPerGBSecond,
+      },
+    },
+  };
+}
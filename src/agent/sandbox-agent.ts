@@ -0,0 +1,359 @@
+/**
+ * Lucid Sandbox Agent
+ *
+ * Daydreams agent that takes a task in natural language and runs code in the
+ * sandbox to answer it:
+ * - execute_code: the sandbox as an action, one paid execution per call
+ * - sandbox:task input and sandbox:reply output for one run
+ *
+ * Each execution is held against, then settled from, the prepaid account the
+ * run is for; a single x402 authorization cannot pay for several executions.
+ * The model is injected, so runs can be driven by a mock provider.
+ */
+
+import {
+  action,
+  context,
+  createDreams,
+  input,
+  output,
+  LogLevel,
+  type ActionResult,
+  type Agent,
+  type AnyAction,
+  type Log,
+  type OutputRef,
+} from '@daydreamsai/core';
+import { createOpenAI } from '@ai-sdk/openai';
+import {
+  wrapLanguageModel,
+  type LanguageModelV1,
+  type LanguageModelV1Middleware,
+  type LanguageModelV1StreamPart,
+} from 'ai';
+import { nanoid } from 'nanoid';
+import { z } from 'zod';
+import { CONFIG } from '../lib/config.js';
+import type { ExecutionRequest } from '../lib/sandbox.js';
+import { runtimeRegistry } from '../lib/runtimes/index.js';
+import type { ExecutionPayment } from '../lib/history.js';
+import type { PricingTier } from '../lib/pricing.js';
+import { InsufficientCreditError, type Account } from '../lib/accounts.js';
+import { holdCredit, runPaidExecution } from '../lib/paid-execution.js';
+
+const PRICING_TIERS = Object.keys(CONFIG.pricing) as PricingTier[];
+
+/**
+ * One agent run, paid from a prepaid account
+ */
+export const sandboxContext = context({
+  type: 'sandbox-task',
+  schema: z.object({
+    runId: z.string(),
+    accountId: z.string(),
+    payer: z.string(),
+    tier: z.enum(['basic', 'standard', 'premium']),
+  }),
+  key: ({ runId }) => runId,
+  description: 'A task to solve by running code in the sandbox',
+  instructions: [
+    'Answer the task, running code with execute_code when computing the answer is more reliable than reasoning about it.',
+    'Each execute_code call is charged to the requester; do not run code you do not need.',
+    'Reply with a sandbox:reply output once you have the answer, quoting the output it is based on.',
+  ],
+  maxSteps: CONFIG.ai.maxSteps,
+});
+
+type SandboxContextArgs = z.infer<typeof sandboxContext.schema>;
+
+/**
+ * What execute_code hands back to the model
+ */
+export interface ExecuteCodeResult {
+  success: boolean;
+  output?: string;
+  result?: unknown;
+  error?: string;
+  executionId?: string;
+  payment?: ExecutionPayment;
+}
+
+/**
+ * The sandbox as an action; language and tier are checked here rather than
+ * by the schema, so a malformed call is reported back to the model
+ */
+export const executeCodeAction = action({
+  name: 'execute_code',
+  description:
+    `Run code in an isolated sandbox and return its output and result. ` +
+    `Languages: ${runtimeRegistry.languages().join(', ')}.`,
+  schema: z.object({
+    code: z.string().describe('Source code to run; console.log / print to produce output'),
+    language: z.string().optional().describe('Runtime language, javascript by default'),
+    tier: z.string().optional().describe(`Limits tier (${PRICING_TIERS.join(', ')}), the run's tier by default`),
+  }),
+  async handler(call, ctx): Promise<ExecuteCodeResult> {
+    const args = ctx.args as SandboxContextArgs;
+    const { code, language = 'javascript' } = call.data;
+    const tier = (call.data.tier ?? args.tier) as PricingTier;
+
+    if (!code || code.length > 10000) {
+      return { success: false, error: 'Code must be between 1 and 10000 characters' };
+    }
+    if (!runtimeRegistry.has(language)) {
+      return { success: false, error: `Unsupported language ${language}; expected one of ${runtimeRegistry.languages().join(', ')}` };
+    }
+    if (!PRICING_TIERS.includes(tier)) {
+      return { success: false, error: `Unknown tier ${tier}; expected one of ${PRICING_TIERS.join(', ')}` };
+    }
+
+    try {
+      const { source, authorization } = holdCredit({ accountId: args.accountId, owner: args.payer }, tier);
+      const request: ExecutionRequest = { code, language, tier };
+      console.log(`🤖 Agent run ${args.runId} executing ${language} code for ${args.payer} (tier: ${tier})`);
+
+      const { result, payment } = await runPaidExecution(request, authorization, source, { waitForSlot: true });
+
+      return {
+        success: result.success,
+        output: result.output,
+        result: result.result,
+        error: result.error,
+        executionId: result.executionId,
+        payment,
+      };
+
+    } catch (error: any) {
+      if (error instanceof InsufficientCreditError) {
+        return { success: false, error: `Insufficient credit: ${error.available} USDC available, ${error.required} required` };
+      }
+
+      console.error('Agent execute_code error:', error);
+      return { success: false, error: error.message || 'An error occurred during execution' };
+    }
+  },
+  format: (result: ActionResult<ExecuteCodeResult>) => {
+    const { success, output, result: value, error, executionId } = result.data;
+    return JSON.stringify({ success, output, result: value, error, executionId });
+  },
+});
+
+/**
+ * Raised when a run gets no response at all from the model, e.g. a bad API
+ * key; the agent itself only logs such failures
+ */
+export class ModelUnavailableError extends Error {
+  constructor() {
+    super('The model returned no response; check OPENAI_API_KEY and MODEL_NAME');
+    this.name = 'ModelUnavailableError';
+  }
+}
+
+const ACTION_CALL_OPEN = '<action_call';
+const ACTION_CALL_CLOSE = '</action_call>';
+
+/**
+ * Whether the agent can run an <action_call> block: it names a known action
+ * and its body parses against that action's schema, as the agent parses it
+ */
+function isRunnableCall(block: string, actions: AnyAction[]): boolean {
+  const name = /^<action_call\b[^>]*\bname\s*=\s*["']([^"']*)["']/.exec(block)?.[1];
+  const action = actions.find((known) => known.name === name);
+  if (!action) {
+    return false;
+  }
+
+  const content = block.slice(block.indexOf('>') + 1, -ACTION_CALL_CLOSE.length);
+  try {
+    return action.schema.safeParse(content.length > 0 ? JSON.parse(content) : {}).success;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Longest end of the text that could be the start of an <action_call tag
+ */
+function partialOpenTag(text: string): number {
+  for (let length = Math.min(text.length, ACTION_CALL_OPEN.length - 1); length > 0; length--) {
+    if (ACTION_CALL_OPEN.startsWith(text.slice(-length))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Model middleware that drops action calls the agent could not run. The
+ * agent parses each call without awaiting it, so a call to an unknown
+ * action or with a malformed body would otherwise end up as an unhandled
+ * rejection. Text outside action calls streams through unchanged; a call
+ * is held back until it is complete.
+ *
+ * @param actions - Actions the agent is given
+ */
+export function dropInvalidActionCalls(actions: AnyAction[]): LanguageModelV1Middleware {
+  return {
+    wrapStream: async ({ doStream }) => {
+      const { stream, ...rest } = await doStream();
+      let pending = '';
+
+      const emit = (controller: TransformStreamDefaultController<LanguageModelV1StreamPart>, text: string) => {
+        if (text) {
+          controller.enqueue({ type: 'text-delta', textDelta: text });
+        }
+      };
+
+      return {
+        ...rest,
+        stream: stream.pipeThrough(new TransformStream<LanguageModelV1StreamPart, LanguageModelV1StreamPart>({
+          transform(part, controller) {
+            if (part.type !== 'text-delta') {
+              controller.enqueue(part);
+              return;
+            }
+
+            pending += part.textDelta;
+            for (;;) {
+              const start = pending.indexOf(ACTION_CALL_OPEN);
+              if (start === -1) {
+                const held = partialOpenTag(pending);
+                emit(controller, pending.slice(0, pending.length - held));
+                pending = pending.slice(pending.length - held);
+                return;
+              }
+
+              emit(controller, pending.slice(0, start));
+              pending = pending.slice(start);
+
+              const end = pending.indexOf(ACTION_CALL_CLOSE);
+              if (end === -1) {
+                return;
+              }
+
+              const block = pending.slice(0, end + ACTION_CALL_CLOSE.length);
+              pending = pending.slice(block.length);
+              if (isRunnableCall(block, actions)) {
+                emit(controller, block);
+              } else {
+                console.error('Agent dropped an action call it could not run:', block.slice(0, 200));
+              }
+            }
+          },
+          flush(controller) {
+            // An unfinished action call cannot be run either
+            if (!pending.startsWith(ACTION_CALL_OPEN)) {
+              emit(controller, pending);
+            }
+          },
+        })),
+      };
+    },
+  };
+}
+
+export interface SandboxAgentOptions {
+  model: LanguageModelV1;
+  logLevel?: LogLevel;
+}
+
+/**
+ * Build the agent around a language model
+ *
+ * @param options - Model driving the agent, e.g. a mock in tests
+ */
+export function createSandboxAgent(options: SandboxAgentOptions): Agent {
+  const actions = [executeCodeAction];
+
+  return createDreams({
+    model: wrapLanguageModel({ model: options.model, middleware: dropInvalidActionCalls(actions) }),
+    logger: options.logLevel ?? LogLevel.WARN,
+    inputs: {
+      'sandbox:task': input({
+        schema: z.object({ text: z.string() }),
+        format: ({ text }) => text,
+      }),
+    },
+    outputs: {
+      'sandbox:reply': output({
+        description: 'The answer to the task',
+        schema: z.string(),
+        handler: (reply) => ({ data: reply, timestamp: Date.now() }),
+      }),
+    },
+    actions,
+  });
+}
+
+/**
+ * Model named by AI_CONFIG, if an OpenAI key is configured
+ */
+export function createConfiguredModel(): LanguageModelV1 | undefined {
+  if (!CONFIG.ai.openaiApiKey) {
+    return undefined;
+  }
+  return createOpenAI({ apiKey: CONFIG.ai.openaiApiKey })(CONFIG.ai.modelName);
+}
+
+/**
+ * Outcome of one agent run
+ */
+export interface AgentRunResult {
+  runId: string;
+  reply?: string;
+  executions: ExecuteCodeResult[];
+}
+
+/**
+ * Run a task to completion, paid from an account's credit
+ *
+ * @param agent - Agent from createSandboxAgent
+ * @param task - Task in natural language
+ * @param account - Account paying for the run's executions
+ * @param tier - Default tier of the run's executions
+ */
+export async function runSandboxTask(
+  agent: Agent,
+  task: string,
+  account: Account,
+  tier: PricingTier = 'basic'
+): Promise<AgentRunResult> {
+  await agent.start();
+
+  const args: SandboxContextArgs = {
+    runId: nanoid(16),
+    accountId: account.accountId,
+    payer: account.owner,
+    tier,
+  };
+
+  let chain: Log[];
+  try {
+    chain = await agent.send({
+      context: sandboxContext,
+      args,
+      input: { type: 'sandbox:task', data: { text: task } },
+    });
+  } finally {
+    // Runs are one-off; drop their memory rather than keep it for the process lifetime
+    const contextId = agent.getContextId({ context: sandboxContext, args });
+    await agent.memory.store.delete(contextId);
+    await agent.memory.store.delete(`${contextId}:working-memory`);
+  }
+
+  // A failed model call leaves at most an empty thought behind
+  if (chain.every((log) => log.ref === 'thought' && !log.content.trim())) {
+    throw new ModelUnavailableError();
+  }
+
+  const replies = chain.filter((log): log is OutputRef<string> =>
+    log.ref === 'output' && log.type === 'sandbox:reply');
+  const results = chain.filter((log): log is ActionResult<ExecuteCodeResult> =>
+    log.ref === 'action_result' && log.name === executeCodeAction.name);
+
+  return {
+    runId: args.runId,
+    reply: replies.length > 0 ? replies[replies.length - 1].data : undefined,
+    executions: results.map((result) => result.data),
+  };
+}
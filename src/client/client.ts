@@ -0,0 +1,400 @@
+/**
+ * Sandbox Agent Client
+ *
+ * Calls the agent over HTTP and pays for executions without the caller
+ * handling the x402 exchange:
+ * - Reads the 402 `accepts`, picks an option the wallet can pay
+ * - Signs an EIP-3009 authorization with a viem wallet client
+ * - Retries with X-PAYMENT and parses X-Payment-Response
+ * - Waits out full tiers (429) and polls async jobs to completion
+ *
+ * With an API key, executions are paid from prepaid credit instead.
+ * Only types are shared with the server, so this module pulls in no
+ * server code at runtime.
+ */
+
+import { toHex, type Account, type Address, type Chain, type Hex, type Transport, type WalletClient } from 'viem';
+import type { ExecutionRequest } from '../lib/sandbox.js';
+import type { PaymentPayload, PaymentRequirement } from '../lib/x402-payment.js';
+import type { PaymentRequiredBody } from '../middleware/x402.js';
+import type { PaymentResponse } from '../lib/settlement.js';
+import type { AsyncExecuteResponse, ExecuteResponse } from '../routes/execute.js';
+import type { JobResponse } from '../routes/jobs.js';
+import type { AccountResponse, DepositResponse } from '../routes/account.js';
+
+/**
+ * EIP-3009 authorization, as typed data signed by the payer
+ */
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+} as const;
+
+// Authorizations stay valid at least this long, to cover queueing
+const MIN_AUTHORIZATION_SECONDS = 60;
+
+const FINISHED_JOB_STATUSES = ['completed', 'failed'];
+
+export type PaymentWallet = WalletClient<Transport, Chain | undefined, Account>;
+
+export interface SandboxClientOptions {
+  baseUrl: string;              // e.g. https://agent.example.com
+  wallet?: PaymentWallet;       // signs x402 payments
+  apiKey?: string;              // pays from prepaid credit instead
+  networks?: string[];          // networks to pay on, in order of preference
+  maxAmount?: number;           // never authorize more than this, in USDC
+  retries?: number;             // retries of a full tier (429), default 3
+  pollIntervalMs?: number;      // async job polling, default 1000
+  fetch?: typeof fetch;
+}
+
+/**
+ * Options for a single execution
+ */
+export interface ExecuteOptions {
+  language?: string;                              // default javascript
+  tier?: ExecutionRequest['tier'];                // default basic
+  timeout?: number;
+  input?: ExecutionRequest['input'];
+  deterministic?: ExecutionRequest['deterministic'];
+  signal?: AbortSignal;
+}
+
+export interface SubmitOptions extends ExecuteOptions {
+  callbackUrl?: string; // POSTed the finished job
+}
+
+export interface WaitOptions {
+  timeoutMs?: number; // default 5 minutes
+  signal?: AbortSignal;
+}
+
+/**
+ * Finished execution, with the settled payment when paid via x402
+ */
+export type ExecuteResult = ExecuteResponse & {
+  paymentResponse?: PaymentResponse;
+};
+
+/**
+ * Error response from the agent
+ */
+export class SandboxApiError extends Error {
+  constructor(
+    public status: number,
+    public error: string,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'SandboxApiError';
+  }
+}
+
+/**
+ * The agent did not accept payment: the authorization was rejected, or
+ * there is no option this client can pay
+ */
+export class PaymentRejectedError extends SandboxApiError {
+  constructor(message: string, public accepts: PaymentRequirement[] = []) {
+    super(402, 'Payment Required', message);
+    this.name = 'PaymentRejectedError';
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+/**
+ * Delay asked for by a Retry-After header, in ms
+ */
+function retryAfterMs(response: Response, fallbackMs: number): number {
+  const seconds = Number(response.headers.get('retry-after'));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : fallbackMs;
+}
+
+function isEvmAddress(value: string): boolean {
+  return /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+export class SandboxClient {
+  private baseUrl: string;
+  private fetch: typeof fetch;
+
+  constructor(private options: SandboxClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.fetch = options.fetch ?? globalThis.fetch;
+  }
+
+  /**
+   * API key in use, e.g. the one returned by a first deposit
+   */
+  get apiKey(): string | undefined {
+    return this.options.apiKey;
+  }
+
+  /**
+   * Run code and wait for its result
+   *
+   * @param code - Source to execute
+   * @param options - Language, tier and inputs
+   */
+  async execute(code: string, options: ExecuteOptions = {}): Promise<ExecuteResult> {
+    const response = await this.paidPost('/api/execute', this.executionBody(code, options), options);
+    const body = await this.json<ExecuteResponse>(response);
+
+    const header = response.headers.get('x-payment-response');
+    return {
+      ...body,
+      paymentResponse: header ? JSON.parse(header) as PaymentResponse : undefined,
+    };
+  }
+
+  /**
+   * Queue code as an async job and return without waiting for it
+   */
+  async submit(code: string, options: SubmitOptions = {}): Promise<AsyncExecuteResponse> {
+    const body = { ...this.executionBody(code, options), async: true, callbackUrl: options.callbackUrl };
+    const response = await this.paidPost('/api/execute', body, options);
+    return this.json<AsyncExecuteResponse>(response);
+  }
+
+  /**
+   * Queue code as an async job and poll until it has finished
+   */
+  async executeAsync(code: string, options: SubmitOptions & WaitOptions = {}): Promise<JobResponse> {
+    const { jobId } = await this.submit(code, options);
+    return this.waitForJob(jobId, options);
+  }
+
+  async getJob(jobId: string, signal?: AbortSignal): Promise<JobResponse> {
+    const response = await this.fetch(`${this.baseUrl}/api/jobs/${encodeURIComponent(jobId)}`, { signal });
+    return this.json<JobResponse>(response);
+  }
+
+  /**
+   * Poll a job until it is completed or failed
+   *
+   * @throws if it is still unfinished after timeoutMs
+   */
+  async waitForJob(jobId: string, options: WaitOptions = {}): Promise<JobResponse> {
+    const deadline = Date.now() + (options.timeoutMs ?? 300000);
+    const interval = this.options.pollIntervalMs ?? 1000;
+
+    for (;;) {
+      const job = await this.getJob(jobId, options.signal);
+      if (FINISHED_JOB_STATUSES.includes(job.status)) {
+        return job;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Job ${jobId} still ${job.status} after ${options.timeoutMs ?? 300000}ms`);
+      }
+      await sleep(interval, options.signal);
+    }
+  }
+
+  /**
+   * Payment options the agent offers for executions
+   */
+  async paymentRequirements(): Promise<PaymentRequirement[]> {
+    const response = await this.fetch(`${this.baseUrl}/api/execute`);
+    const body = await response.json() as PaymentRequiredBody;
+    return body.accepts;
+  }
+
+  /**
+   * Buy prepaid credit; the first deposit opens an account, whose API key
+   * this client then uses for executions
+   *
+   * @param amount - USDC to deposit
+   */
+  async deposit(amount: number, signal?: AbortSignal): Promise<DepositResponse> {
+    const response = await this.paidPost('/api/account/deposit', { amount }, { signal }, false);
+    const body = await this.json<DepositResponse>(response);
+    if (body.apiKey) {
+      this.options.apiKey = body.apiKey;
+    }
+    return body;
+  }
+
+  /**
+   * Balance and recent transactions of the API key's account
+   */
+  async account(limit = 20, cursor?: string): Promise<AccountResponse> {
+    const query = new URLSearchParams({ limit: String(limit), ...(cursor ? { cursor } : {}) });
+    const response = await this.fetch(`${this.baseUrl}/api/account?${query}`, {
+      headers: this.authHeaders(),
+    });
+    return this.json<AccountResponse>(response);
+  }
+
+  private executionBody(code: string, options: ExecuteOptions) {
+    return {
+      code,
+      language: options.language ?? 'javascript',
+      tier: options.tier ?? 'basic',
+      timeout: options.timeout,
+      input: options.input,
+      deterministic: options.deterministic,
+    };
+  }
+
+  /**
+   * POST a paid request: with the API key if there is one, else through
+   * a 402 and a signed X-PAYMENT retry. A full tier (429) is retried
+   * after its Retry-After, with a fresh authorization each time.
+   *
+   * @param payWithCredit - Whether the API key's credit pays for the request;
+   *   deposits are always paid with a signed authorization
+   */
+  private async paidPost(
+    path: string,
+    body: { tier?: string; [field: string]: unknown },
+    options: { signal?: AbortSignal },
+    payWithCredit = true
+  ): Promise<Response> {
+    const retries = this.options.retries ?? 3;
+    const post = (headers: Record<string, string>) => this.fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.authHeaders(), ...headers },
+      body: JSON.stringify(body),
+      signal: options.signal,
+    });
+
+    for (let attempt = 0; ; attempt++) {
+      let response = await post({});
+
+      if (response.status === 402 && !(payWithCredit && this.options.apiKey)) {
+        const { accepts } = await response.json() as PaymentRequiredBody;
+        const requirement = this.selectRequirement(accepts, body.tier);
+        response = await post({ 'X-PAYMENT': JSON.stringify(await this.authorize(requirement)) });
+
+        if (response.status === 402) {
+          const rejected = await response.json() as PaymentRequiredBody & { message?: string; details?: unknown };
+          // The payment was accepted and the code ran, but it could not be settled
+          if (rejected.error === 'Settlement Failed') {
+            throw new SandboxApiError(402, rejected.error, rejected.message ?? rejected.error, rejected.details);
+          }
+          throw new PaymentRejectedError(rejected.message ?? rejected.error ?? 'Payment rejected', rejected.accepts);
+        }
+      }
+
+      if (response.status === 429 && attempt < retries) {
+        await sleep(retryAfterMs(response, 1000), options.signal);
+        continue;
+      }
+
+      return response;
+    }
+  }
+
+  /**
+   * Pick the payment option to sign: one for the requested tier, on the
+   * first preferred network, or on the wallet's chain
+   */
+  private selectRequirement(accepts: PaymentRequirement[], tier?: string): PaymentRequirement {
+    const candidates = accepts.filter((requirement) =>
+      (!tier || requirement.extra?.tier === undefined || requirement.extra.tier === tier) &&
+      isEvmAddress(requirement.asset) &&
+      isEvmAddress(requirement.payTo) &&
+      (this.options.maxAmount === undefined ||
+        BigInt(requirement.maxAmountRequired) <= BigInt(Math.round(this.options.maxAmount * 1_000_000)))
+    );
+
+    const chainId = this.options.wallet?.chain?.id;
+    const match = this.options.networks
+      ? this.options.networks
+          .map((network) => candidates.find((requirement) => requirement.network === network))
+          .find(Boolean)
+      : candidates.find((requirement) => chainId === undefined || requirement.extra?.chainId === chainId);
+
+    if (!match) {
+      throw new PaymentRejectedError('No payment option this client can pay', accepts);
+    }
+    return match;
+  }
+
+  /**
+   * Sign an EIP-3009 TransferWithAuthorization for a payment option
+   */
+  private async authorize(requirement: PaymentRequirement): Promise<PaymentPayload> {
+    const wallet = this.options.wallet;
+    if (!wallet) {
+      throw new PaymentRejectedError('Payment required, but the client has no wallet or API key', [requirement]);
+    }
+
+    const extra = requirement.extra ?? {};
+    const chainId = (extra.chainId as number | undefined) ?? wallet.chain?.id;
+    if (chainId === undefined) {
+      throw new PaymentRejectedError(`Unknown chain for network ${requirement.network}`, [requirement]);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const message = {
+      from: wallet.account.address,
+      to: requirement.payTo as Address,
+      value: BigInt(requirement.maxAmountRequired),
+      validAfter: 0n,
+      validBefore: BigInt(now + Math.max(requirement.maxTimeoutSeconds, MIN_AUTHORIZATION_SECONDS)),
+      nonce: toHex(crypto.getRandomValues(new Uint8Array(32))),
+    };
+
+    const signature = await wallet.signTypedData({
+      account: wallet.account,
+      domain: {
+        name: extra.name as string,
+        version: extra.version as string,
+        chainId,
+        verifyingContract: requirement.asset as Address,
+      },
+      types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+      primaryType: 'TransferWithAuthorization',
+      message,
+    });
+
+    return {
+      scheme: requirement.scheme,
+      network: requirement.network,
+      signature,
+      from: message.from,
+      to: message.to,
+      value: message.value.toString(),
+      validAfter: message.validAfter.toString(),
+      validBefore: message.validBefore.toString(),
+      nonce: message.nonce as Hex,
+    };
+  }
+
+  private authHeaders(): Record<string, string> {
+    return this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {};
+  }
+
+  /**
+   * Parse a successful response, or throw the agent's error
+   */
+  private async json<T>(response: Response): Promise<T> {
+    const body = await response.json().catch(() => ({})) as Record<string, unknown>;
+    if (!response.ok) {
+      throw new SandboxApiError(
+        response.status,
+        String(body.error ?? response.statusText),
+        String(body.message ?? body.error ?? `Request failed with status ${response.status}`),
+        body.details
+      );
+    }
+    return body as T;
+  }
+}
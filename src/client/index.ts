@@ -0,0 +1,37 @@
+/**
+ * Typed Client SDK
+ *
+ * import { createSandboxClient } from 'lucid-sandbox-agent/client';
+ *
+ * const client = createSandboxClient({ baseUrl, wallet });
+ * const { output, paymentResponse } = await client.execute('console.log(6 * 7)');
+ */
+
+import { SandboxClient, type SandboxClientOptions } from './client.js';
+
+export {
+  SandboxClient,
+  SandboxApiError,
+  PaymentRejectedError,
+  type SandboxClientOptions,
+  type PaymentWallet,
+  type ExecuteOptions,
+  type SubmitOptions,
+  type WaitOptions,
+  type ExecuteResult,
+} from './client.js';
+
+// Wire types shared with the server
+export type { ExecutionRequest, ExecutionResult } from '../lib/sandbox.js';
+export type { PaymentPayload, PaymentRequirement } from '../lib/x402-payment.js';
+export type { PaymentRequiredBody } from '../middleware/x402.js';
+export type { PaymentResponse } from '../lib/settlement.js';
+export type { ExecutionPayment } from '../lib/history.js';
+export type { Job, JobStatus } from '../lib/jobs.js';
+export type { AsyncExecuteResponse, ExecuteResponse } from '../routes/execute.js';
+export type { JobResponse } from '../routes/jobs.js';
+export type { AccountResponse, DepositResponse } from '../routes/account.js';
+
+export function createSandboxClient(options: SandboxClientOptions): SandboxClient {
+  return new SandboxClient(options);
+}
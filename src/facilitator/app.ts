@@ -0,0 +1,184 @@
+/**
+ * Local Facilitator
+ *
+ * Stand-in for a hosted x402 facilitator, speaking the same protocol the
+ * agent uses, for testnet and local-chain payments
+ *
+ * POST /verify   { payment, network, asset }
+ * POST /settle   { payment, network, asset }
+ * GET  /health
+ *
+ * With the mock USDC ledger, also:
+ * POST /mint     { address, amount } - credit test USDC (base units)
+ * POST /rpc      JSON-RPC subset read by the agent's local network
+ */
+
+import express, { type Request, type Response } from 'express';
+import { z } from 'zod';
+import { EvmPaymentAdapter, paymentNetworks, type PaymentPayload } from '../lib/networks/index.js';
+import { MockUsdc, RpcError } from './mock-usdc.js';
+
+/**
+ * Settled transfer
+ */
+export interface Settlement {
+  transactionHash: string;
+  amount: string; // USDC base units moved: the whole signed value
+}
+
+/**
+ * How authorizations are checked and settled
+ */
+export interface Settler {
+  supports(network: string): boolean;
+
+  /**
+   * @returns Why the authorization cannot be settled, or undefined
+   */
+  verify(payload: PaymentPayload, adapter: EvmPaymentAdapter): Promise<string | undefined>;
+
+  /**
+   * Transfer the authorization's whole signed value, as EIP-3009 does
+   *
+   * @throws if the authorization cannot be settled
+   */
+  settle(payload: PaymentPayload, adapter: EvmPaymentAdapter): Promise<Settlement>;
+}
+
+const PaymentSchema = z.object({
+  scheme: z.string(),
+  network: z.string().optional(),
+  signature: z.string(),
+  from: z.string(),
+  to: z.string(),
+  value: z.string().regex(/^\d+$/),
+  validAfter: z.string(),
+  validBefore: z.string(),
+  nonce: z.string(),
+});
+
+const FacilitatorRequestSchema = z.object({
+  payment: PaymentSchema,
+  network: z.string().optional(),
+  asset: z.string().optional(),
+});
+
+const MintSchema = z.object({
+  address: z.string().regex(/^0x[0-9a-fA-F]{40}$/),
+  amount: z.string().regex(/^\d+$/),
+});
+
+/**
+ * Validate a verify/settle body and find the network it is for
+ *
+ * @returns The request and adapter, or why it cannot be handled
+ */
+function resolve(
+  settler: Settler,
+  body: unknown
+): { error: string } | { request: z.infer<typeof FacilitatorRequestSchema>; adapter: EvmPaymentAdapter } {
+  const validation = FacilitatorRequestSchema.safeParse(body);
+  if (!validation.success) {
+    return { error: 'Invalid facilitator request' };
+  }
+
+  const request = validation.data;
+  const network = request.network ?? request.payment.network;
+  if (!network || !paymentNetworks.has(network) || !settler.supports(network)) {
+    return { error: `Network ${network} is not supported by this facilitator` };
+  }
+
+  const adapter = paymentNetworks.get(network);
+  if (!(adapter instanceof EvmPaymentAdapter)) {
+    return { error: `Network ${network} is not an EVM network` };
+  }
+  if (request.asset && request.asset.toLowerCase() !== adapter.network.asset.toLowerCase()) {
+    return { error: `Asset ${request.asset} is not USDC on ${network}` };
+  }
+
+  return { request, adapter };
+}
+
+/**
+ * Build the facilitator's Express app
+ *
+ * @param settler - Mock ledger or on-chain settlement
+ */
+export function createFacilitatorApp(settler: Settler) {
+  const app = express();
+  app.use(express.json());
+
+  app.get('/health', (_req: Request, res: Response) => {
+    res.json({
+      status: 'ok',
+      mode: settler instanceof MockUsdc ? 'ledger' : 'chain',
+      networks: paymentNetworks.describe().filter((network) => settler.supports(network.id)),
+    });
+  });
+
+  app.post('/verify', async (req: Request, res: Response) => {
+    try {
+      const resolved = resolve(settler, req.body);
+      if ('error' in resolved) {
+        return res.status(400).json({ error: resolved.error });
+      }
+
+      const error = await settler.verify(resolved.request.payment, resolved.adapter);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      res.json({ valid: true });
+    } catch (error: any) {
+      console.error('Facilitator verification error:', error);
+      res.status(500).json({ error: error.message || 'Verification failed' });
+    }
+  });
+
+  app.post('/settle', async (req: Request, res: Response) => {
+    try {
+      const resolved = resolve(settler, req.body);
+      if ('error' in resolved) {
+        return res.status(400).json({ error: resolved.error });
+      }
+
+      const { payment } = resolved.request;
+      const settlement = await settler.settle(payment, resolved.adapter);
+      console.log(`✅ Settled ${settlement.amount} units from ${payment.from}: ${settlement.transactionHash}`);
+
+      res.json({ success: true, ...settlement });
+    } catch (error: any) {
+      console.error('Facilitator settlement error:', error.message);
+      res.status(400).json({ error: error.message || 'Settlement failed' });
+    }
+  });
+
+  if (settler instanceof MockUsdc) {
+    app.post('/mint', (req: Request, res: Response) => {
+      const validation = MintSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: 'Invalid Request',
+          message: 'Body must be { address, amount } with amount in USDC base units',
+          details: validation.error.issues,
+        });
+      }
+
+      const { address, amount } = validation.data;
+      const balance = settler.mint(address, BigInt(amount));
+      res.json({ address, balance: balance.toString() });
+    });
+
+    app.post('/rpc', (req: Request, res: Response) => {
+      const { id = null, method, params } = req.body ?? {};
+      try {
+        res.json({ jsonrpc: '2.0', id, result: settler.rpc(method, params) });
+      } catch (error: any) {
+        const code = error instanceof RpcError ? error.code : -32603;
+        res.json({ jsonrpc: '2.0', id, error: { code, message: error.message } });
+      }
+    });
+  }
+
+  return app;
+}
@@ -0,0 +1,124 @@
+/**
+ * On-chain Settlement
+ *
+ * Settles authorizations the way a hosted facilitator does: by submitting
+ * the payer's transferWithAuthorization to the network's USDC contract,
+ * paying gas from the facilitator's own key. Works against Base Sepolia
+ * or a local Anvil chain with an EIP-3009 mock USDC deployed.
+ */
+
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  parseAbi,
+  parseSignature,
+  type Address,
+  type Hex,
+  type PublicClient,
+  type WalletClient,
+} from 'viem';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import type { EvmPaymentAdapter, PaymentPayload } from '../lib/networks/index.js';
+import type { Settlement, Settler } from './app.js';
+
+const EIP3009_ABI = parseAbi([
+  'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
+  'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+]);
+
+interface ChainClients {
+  public: PublicClient;
+  wallet: WalletClient;
+}
+
+export class ChainSettler implements Settler {
+  private account: PrivateKeyAccount;
+  private clients = new Map<string, ChainClients>();
+
+  /**
+   * @param privateKey - Key paying gas for settlement transactions
+   */
+  constructor(privateKey: string) {
+    this.account = privateKeyToAccount(privateKey as Hex);
+  }
+
+  get address(): Address {
+    return this.account.address;
+  }
+
+  supports(): boolean {
+    // Any EVM network the registry knows about
+    return true;
+  }
+
+  async verify(payload: PaymentPayload, adapter: EvmPaymentAdapter): Promise<string | undefined> {
+    const signatureError = await adapter.verifyAuthorization(payload);
+    if (signatureError) {
+      return signatureError;
+    }
+
+    const used = await this.clientsFor(adapter).public.readContract({
+      address: adapter.network.asset as Address,
+      abi: EIP3009_ABI,
+      functionName: 'authorizationState',
+      args: [payload.from as Address, payload.nonce as Hex],
+    });
+    if (used) {
+      return 'Authorization is used or canceled';
+    }
+
+    const balance = await adapter.getBalance(payload.from);
+    if (balance < BigInt(payload.value)) {
+      return 'Transfer amount exceeds balance';
+    }
+
+    return undefined;
+  }
+
+  async settle(payload: PaymentPayload, adapter: EvmPaymentAdapter): Promise<Settlement> {
+    const value = BigInt(payload.value);
+
+    const { r, s, v, yParity } = parseSignature(payload.signature as Hex);
+    const clients = this.clientsFor(adapter);
+
+    const transactionHash = await clients.wallet.writeContract({
+      address: adapter.network.asset as Address,
+      abi: EIP3009_ABI,
+      functionName: 'transferWithAuthorization',
+      args: [
+        payload.from as Address,
+        payload.to as Address,
+        value,
+        BigInt(payload.validAfter),
+        BigInt(payload.validBefore),
+        payload.nonce as Hex,
+        Number(v ?? BigInt(yParity + 27)),
+        r,
+        s,
+      ],
+      account: this.account,
+      chain: adapter.config.chain,
+    });
+
+    const receipt = await clients.public.waitForTransactionReceipt({ hash: transactionHash });
+    if (receipt.status !== 'success') {
+      throw new Error(`Settlement transaction ${transactionHash} reverted`);
+    }
+
+    return { transactionHash, amount: value.toString() };
+  }
+
+  private clientsFor(adapter: EvmPaymentAdapter): ChainClients {
+    let clients = this.clients.get(adapter.network.id);
+    if (!clients) {
+      const transport = http(adapter.config.rpcUrl);
+      clients = {
+        public: createPublicClient({ chain: adapter.config.chain, transport }) as PublicClient,
+        wallet: createWalletClient({ chain: adapter.config.chain, transport, account: this.account }),
+      };
+      this.clients.set(adapter.network.id, clients);
+    }
+    return clients;
+  }
+}
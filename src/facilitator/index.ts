@@ -0,0 +1,43 @@
+/**
+ * Local Facilitator Entry Point
+ *
+ * npm run facilitator
+ *
+ * Run next to the agent with NETWORK_PROFILE=local (mock USDC ledger,
+ * fully offline) or with FACILITATOR_MODE=chain against Base Sepolia or
+ * an Anvil chain. Never point a production agent at it.
+ */
+
+import { CONFIG } from '../lib/config.js';
+import { EvmPaymentAdapter, paymentNetworks } from '../lib/networks/index.js';
+import { createFacilitatorApp, type Settler } from './app.js';
+import { ChainSettler } from './chain.js';
+import { MockUsdc } from './mock-usdc.js';
+
+function createSettler(): Settler {
+  if (CONFIG.facilitator.mode === 'chain') {
+    const settler = new ChainSettler(CONFIG.facilitator.privateKey);
+    console.log(`⛓️  Settling on-chain, paying gas from ${settler.address}`);
+    return settler;
+  }
+
+  const adapter = paymentNetworks.get(CONFIG.facilitator.network);
+  if (!(adapter instanceof EvmPaymentAdapter)) {
+    throw new Error(`FACILITATOR_NETWORK ${CONFIG.facilitator.network} is not an EVM network`);
+  }
+  console.log(`🪙 Mock USDC ${adapter.network.asset} on ${adapter.network.name} (chain ${adapter.config.chainId})`);
+  return new MockUsdc(adapter);
+}
+
+if (CONFIG.server.nodeEnv === 'production') {
+  throw new Error('The local facilitator cannot run in production');
+}
+
+const app = createFacilitatorApp(createSettler());
+const PORT = CONFIG.facilitator.port;
+
+app.listen(PORT, () => {
+  console.log(`🧾 Local facilitator listening on http://localhost:${PORT}`);
+  console.log(`   • Mode: ${CONFIG.facilitator.mode}`);
+  console.log(`   • Networks: ${CONFIG.networks.enabled.join(', ')}`);
+});
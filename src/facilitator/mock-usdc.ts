@@ -0,0 +1,198 @@
+/**
+ * Mock USDC Ledger
+ *
+ * In-memory stand-in for an EIP-3009 USDC contract on a local chain
+ * - Balances are minted freely, for test payers
+ * - transferWithAuthorization semantics: signature, validity window and
+ *   single-use nonces, checked as the real contract does
+ * - A minimal JSON-RPC endpoint serves balances and receipts, so the
+ *   agent reads this ledger like any other chain
+ * - Settling moves the whole signed value, as the real contract does
+ */
+
+import {
+  decodeFunctionData,
+  encodeFunctionResult,
+  erc20Abi,
+  keccak256,
+  toHex,
+  type Address,
+  type Hex,
+} from 'viem';
+import type { EvmPaymentAdapter, PaymentPayload } from '../lib/networks/index.js';
+import type { Settlement, Settler } from './app.js';
+
+/**
+ * Settled transfer, as reported by eth_getTransactionReceipt
+ */
+interface Receipt {
+  transactionHash: Hex;
+  blockNumber: bigint;
+  from: string;
+  to: string;
+  value: bigint;
+}
+
+/**
+ * JSON-RPC failure, returned as the response's error member
+ */
+export class RpcError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+export class MockUsdc implements Settler {
+  private balances = new Map<string, bigint>();
+  private usedAuthorizations = new Set<string>();
+  private receipts = new Map<string, Receipt>();
+  private blockNumber = 0n;
+
+  /**
+   * @param adapter - Network the token is deployed on; its domain is signed over
+   */
+  constructor(private adapter: EvmPaymentAdapter) {}
+
+  get network(): string {
+    return this.adapter.network.id;
+  }
+
+  supports(network: string): boolean {
+    return network === this.adapter.network.id;
+  }
+
+  /**
+   * Credit an address with test USDC
+   *
+   * @param address - Recipient
+   * @param units - USDC base units
+   * @returns New balance
+   */
+  mint(address: string, units: bigint): bigint {
+    const balance = this.balanceOf(address) + units;
+    this.balances.set(address.toLowerCase(), balance);
+    return balance;
+  }
+
+  balanceOf(address: string): bigint {
+    return this.balances.get(address.toLowerCase()) ?? 0n;
+  }
+
+  async verify(payload: PaymentPayload): Promise<string | undefined> {
+    const signatureError = await this.adapter.verifyAuthorization(payload);
+    if (signatureError) {
+      return signatureError;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (now < Number(payload.validAfter) || now >= Number(payload.validBefore)) {
+      return 'Authorization is not valid at this time';
+    }
+
+    if (this.usedAuthorizations.has(this.authorizationKey(payload))) {
+      return 'Authorization is used or canceled';
+    }
+
+    if (this.balanceOf(payload.from) < BigInt(payload.value)) {
+      return 'Transfer amount exceeds balance';
+    }
+
+    return undefined;
+  }
+
+  async settle(payload: PaymentPayload): Promise<Settlement> {
+    const error = await this.verify(payload);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const units = BigInt(payload.value);
+    this.usedAuthorizations.add(this.authorizationKey(payload));
+    this.balances.set(payload.from.toLowerCase(), this.balanceOf(payload.from) - units);
+    this.mint(payload.to, units);
+
+    this.blockNumber++;
+    const transactionHash = keccak256(toHex(`${this.network}:${this.authorizationKey(payload)}`));
+    this.receipts.set(transactionHash, {
+      transactionHash,
+      blockNumber: this.blockNumber,
+      from: payload.from,
+      to: payload.to,
+      value: units,
+    });
+
+    return { transactionHash, amount: units.toString() };
+  }
+
+  /**
+   * Answer the JSON-RPC calls the agent makes: chain ID, balanceOf and
+   * transaction receipts
+   *
+   * @throws RpcError for anything else
+   */
+  rpc(method: string, params: unknown[] = []): unknown {
+    switch (method) {
+      case 'eth_chainId':
+        return toHex(this.adapter.config.chainId);
+      case 'net_version':
+        return String(this.adapter.config.chainId);
+      case 'eth_blockNumber':
+        return toHex(this.blockNumber);
+      case 'eth_call':
+        return this.call(params[0] as { to?: string; data?: Hex });
+      case 'eth_getTransactionReceipt':
+        return this.receipt(String(params[0]));
+      default:
+        throw new RpcError(-32601, `Method ${method} not supported by the mock USDC chain`);
+    }
+  }
+
+  private call({ to, data }: { to?: string; data?: Hex }): Hex {
+    if (!to || to.toLowerCase() !== this.adapter.network.asset.toLowerCase() || !data) {
+      throw new RpcError(-32000, 'Only the mock USDC contract can be called');
+    }
+
+    const { functionName, args } = decodeFunctionData({ abi: erc20Abi, data });
+    switch (functionName) {
+      case 'balanceOf':
+        return encodeFunctionResult({ abi: erc20Abi, functionName, result: this.balanceOf(args[0]) });
+      case 'decimals':
+        return encodeFunctionResult({ abi: erc20Abi, functionName, result: 6 });
+      case 'symbol':
+        return encodeFunctionResult({ abi: erc20Abi, functionName, result: 'USDC' });
+      case 'name':
+        return encodeFunctionResult({ abi: erc20Abi, functionName, result: this.adapter.config.usdcName });
+      default:
+        throw new RpcError(-32000, `${functionName} is not supported by the mock USDC`);
+    }
+  }
+
+  private receipt(hash: string): object | null {
+    const receipt = this.receipts.get(hash.toLowerCase());
+    if (!receipt) {
+      return null;
+    }
+
+    return {
+      transactionHash: receipt.transactionHash,
+      transactionIndex: '0x0',
+      blockHash: keccak256(toHex(receipt.blockNumber)),
+      blockNumber: toHex(receipt.blockNumber),
+      from: receipt.from,
+      to: this.adapter.network.asset as Address,
+      cumulativeGasUsed: '0x0',
+      gasUsed: '0x0',
+      effectiveGasPrice: '0x0',
+      contractAddress: null,
+      logs: [],
+      logsBloom: `0x${'00'.repeat(256)}`,
+      status: '0x1',
+      type: '0x2',
+    };
+  }
+
+  private authorizationKey(payload: PaymentPayload): string {
+    return `${payload.from.toLowerCase()}:${payload.nonce.toLowerCase()}`;
+  }
+}
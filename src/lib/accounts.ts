@@ -0,0 +1,402 @@
+/**
+ * Prepaid Credit Accounts
+ *
+ * A payer deposits once via x402 and receives an API key; executions
+ * called with the key are paid from the account balance instead of a
+ * fresh on-chain authorization each time
+ * - What an x402 execution's authorization moved beyond its charge is
+ *   kept here too, in an account opened without a key if the payer has
+ *   none; their first deposit claims it and issues the key
+ * - Balances are kept in USDC base units, so repeated debits do not drift
+ * - The tier maximum is held while an execution runs, then the metered
+ *   charge is debited and the rest released
+ * - Only a SHA-256 hash of each API key is stored
+ * - memory: kept for the life of the process
+ * - file: accounts and transactions appended to a JSON Lines file and
+ *   replayed on startup; holds are not persisted
+ */
+
+import { appendFile, mkdir } from 'fs/promises';
+import { existsSync, readFileSync } from 'fs';
+import { dirname } from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { nanoid } from 'nanoid';
+import { CONFIG } from './config.js';
+import { fromUnits, toUnits } from './pricing.js';
+
+const API_KEY_PREFIX = 'lsk_';
+
+/**
+ * Prepaid account, owned by the address that first deposited
+ */
+export interface Account {
+  accountId: string;
+  owner: string;
+  apiKeyHash?: string; // none until the owner claims an account opened for x402 change
+  balanceUnits: number; // USDC base units
+  depositedUnits: number;
+  spentUnits: number;
+  createdAt: number;
+}
+
+/**
+ * Balance change on an account, in USDC
+ */
+export interface AccountTransaction {
+  transactionId: string;
+  accountId: string;
+  type: 'deposit' | 'debit';
+  amount: number;
+  balance: number;          // after this transaction
+  executionId?: string;     // debits: execution paid for
+  transactionHash?: string; // deposits: on-chain settlement
+  createdAt: number;
+}
+
+/**
+ * Credit reserved for an execution in progress
+ */
+export interface CreditHold {
+  holdId: string;
+  accountId: string;
+  amount: number; // USDC
+}
+
+/**
+ * Account as shown to its owner
+ */
+export interface AccountSummary {
+  accountId: string;
+  owner: string;
+  balance: number;
+  available: number; // balance minus credit held by running executions
+  held: number;
+  deposited: number;
+  spent: number;
+  createdAt: number;
+}
+
+export interface TransactionPage {
+  transactions: AccountTransaction[];
+  nextCursor?: string;
+}
+
+/**
+ * Raised when an account cannot cover the tier maximum
+ */
+export class InsufficientCreditError extends Error {
+  constructor(public available: number, public required: number) {
+    super(`Insufficient credit: ${available} USDC available, ${required} USDC required`);
+    this.name = 'InsufficientCreditError';
+  }
+}
+
+/**
+ * Line in the accounts file
+ */
+type AccountEvent =
+  | { kind: 'account'; account: Omit<Account, 'balanceUnits' | 'depositedUnits' | 'spentUnits'> }
+  | { kind: 'transaction'; transaction: AccountTransaction }
+  | { kind: 'key'; accountId: string; apiKeyHash: string };
+
+function newApiKey(): string {
+  return API_KEY_PREFIX + randomBytes(24).toString('base64url');
+}
+
+function hashApiKey(apiKey: string): string {
+  return createHash('sha256').update(apiKey).digest('hex');
+}
+
+export class AccountManager {
+  private accounts = new Map<string, Account>();
+  private byKeyHash = new Map<string, string>();  // apiKeyHash -> accountId
+  private byOwner = new Map<string, string>();    // lowercased owner -> accountId
+  private transactions = new Map<string, AccountTransaction[]>(); // oldest first
+  private holds = new Map<string, CreditHold>();
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path - JSON Lines file; undefined keeps accounts in memory only
+   */
+  constructor(private path?: string) {
+    this.load();
+  }
+
+  /**
+   * Open an account for an owner
+   *
+   * @returns The account and its API key, which is not stored and cannot be shown again
+   */
+  async open(owner: string): Promise<{ account: Account; apiKey: string }> {
+    const apiKey = newApiKey();
+    const event: AccountEvent = {
+      kind: 'account',
+      account: { accountId: nanoid(16), owner, apiKeyHash: hashApiKey(apiKey), createdAt: Date.now() },
+    };
+
+    this.apply(event);
+    await this.append(event);
+    return { account: this.accounts.get(event.account.accountId)!, apiKey };
+  }
+
+  /**
+   * The owner's account, opened without an API key if they have none
+   */
+  async accountFor(owner: string): Promise<Account> {
+    const existing = this.findByOwner(owner);
+    if (existing) {
+      return existing;
+    }
+
+    const event: AccountEvent = {
+      kind: 'account',
+      account: { accountId: nanoid(16), owner, createdAt: Date.now() },
+    };
+
+    this.apply(event);
+    await this.append(event);
+    return this.accounts.get(event.account.accountId)!;
+  }
+
+  /**
+   * Issue the API key of an account opened without one
+   *
+   * @returns The key, which is not stored and cannot be shown again
+   * @throws when the account is unknown or already has a key
+   */
+  async issueKey(accountId: string): Promise<string> {
+    const account = this.accounts.get(accountId);
+    if (!account) {
+      throw new Error(`Account ${accountId} not found`);
+    }
+    if (account.apiKeyHash) {
+      throw new Error(`Account ${accountId} already has an API key`);
+    }
+
+    const apiKey = newApiKey();
+    const event: AccountEvent = { kind: 'key', accountId, apiKeyHash: hashApiKey(apiKey) };
+
+    this.apply(event);
+    await this.append(event);
+    return apiKey;
+  }
+
+  /**
+   * Account for an API key, if the key is valid
+   */
+  authenticate(apiKey: string): Account | undefined {
+    const accountId = this.byKeyHash.get(hashApiKey(apiKey));
+    return accountId ? this.accounts.get(accountId) : undefined;
+  }
+
+  findByOwner(owner: string): Account | undefined {
+    const accountId = this.byOwner.get(owner.toLowerCase());
+    return accountId ? this.accounts.get(accountId) : undefined;
+  }
+
+  /**
+   * Credit a settled deposit
+   *
+   * @param accountId - Account to credit
+   * @param amount - USDC deposited
+   * @param transactionHash - Settlement transaction, when there is one
+   */
+  async deposit(accountId: string, amount: number, transactionHash?: string): Promise<AccountTransaction> {
+    return this.record(accountId, { type: 'deposit', amount, transactionHash });
+  }
+
+  /**
+   * Reserve credit for an execution before it runs
+   *
+   * @throws InsufficientCreditError when the available balance is too low
+   */
+  hold(accountId: string, amount: number): CreditHold {
+    const available = this.availableUnits(accountId);
+    if (available < toUnits(amount)) {
+      throw new InsufficientCreditError(fromUnits(available), amount);
+    }
+
+    const hold: CreditHold = { holdId: nanoid(16), accountId, amount };
+    this.holds.set(hold.holdId, hold);
+    return hold;
+  }
+
+  /**
+   * Debit the charge for a finished execution and release the rest of its hold
+   *
+   * @param hold - Hold taken before the execution
+   * @param amount - USDC charged, at most the held amount
+   * @param executionId - Execution paid for
+   * @returns The debit, or undefined when nothing was charged
+   */
+  async capture(hold: CreditHold, amount: number, executionId: string): Promise<AccountTransaction | undefined> {
+    this.release(hold);
+    if (amount <= 0) {
+      return undefined;
+    }
+    return this.record(hold.accountId, { type: 'debit', amount: Math.min(amount, hold.amount), executionId });
+  }
+
+  /**
+   * Give back a hold whose execution never ran
+   */
+  release(hold: CreditHold): void {
+    this.holds.delete(hold.holdId);
+  }
+
+  /**
+   * Balances for the account's owner
+   */
+  summarize(account: Account): AccountSummary {
+    const heldUnits = this.heldUnits(account.accountId);
+    return {
+      accountId: account.accountId,
+      owner: account.owner,
+      balance: fromUnits(account.balanceUnits),
+      available: fromUnits(account.balanceUnits - heldUnits),
+      held: fromUnits(heldUnits),
+      deposited: fromUnits(account.depositedUnits),
+      spent: fromUnits(account.spentUnits),
+      createdAt: account.createdAt,
+    };
+  }
+
+  /**
+   * Deposits and debits, newest first
+   *
+   * @param accountId - Account to list
+   * @param limit - Page size
+   * @param cursor - transactionId of the last entry on the previous page
+   */
+  history(accountId: string, limit: number, cursor?: string): TransactionPage {
+    const all = this.transactions.get(accountId) ?? [];
+
+    let end = all.length;
+    if (cursor) {
+      const position = all.findIndex((transaction) => transaction.transactionId === cursor);
+      end = position === -1 ? 0 : position;
+    }
+    const start = Math.max(0, end - limit);
+    const transactions = all.slice(start, end).reverse();
+
+    return {
+      transactions,
+      nextCursor: start > 0 ? transactions[transactions.length - 1]?.transactionId : undefined,
+    };
+  }
+
+  private async record(
+    accountId: string,
+    change: Pick<AccountTransaction, 'type' | 'amount' | 'executionId' | 'transactionHash'>
+  ): Promise<AccountTransaction> {
+    const account = this.accounts.get(accountId);
+    if (!account) {
+      throw new Error(`Account ${accountId} not found`);
+    }
+
+    const delta = change.type === 'deposit' ? toUnits(change.amount) : -toUnits(change.amount);
+    const transaction: AccountTransaction = {
+      transactionId: nanoid(16),
+      accountId,
+      ...change,
+      balance: fromUnits(account.balanceUnits + delta),
+      createdAt: Date.now(),
+    };
+
+    this.apply({ kind: 'transaction', transaction });
+    await this.append({ kind: 'transaction', transaction });
+    return transaction;
+  }
+
+  /**
+   * Update the in-memory state for one event
+   */
+  private apply(event: AccountEvent): void {
+    if (event.kind === 'account') {
+      const account: Account = { ...event.account, balanceUnits: 0, depositedUnits: 0, spentUnits: 0 };
+      this.accounts.set(account.accountId, account);
+      if (account.apiKeyHash) {
+        this.byKeyHash.set(account.apiKeyHash, account.accountId);
+      }
+      this.byOwner.set(account.owner.toLowerCase(), account.accountId);
+      return;
+    }
+
+    if (event.kind === 'key') {
+      const account = this.accounts.get(event.accountId);
+      if (!account) return;
+      account.apiKeyHash = event.apiKeyHash;
+      this.byKeyHash.set(event.apiKeyHash, account.accountId);
+      return;
+    }
+
+    const { transaction } = event;
+    const account = this.accounts.get(transaction.accountId);
+    if (!account) return;
+
+    const units = toUnits(transaction.amount);
+    if (transaction.type === 'deposit') {
+      account.balanceUnits += units;
+      account.depositedUnits += units;
+    } else {
+      account.balanceUnits -= units;
+      account.spentUnits += units;
+    }
+
+    const list = this.transactions.get(account.accountId) ?? [];
+    list.push(transaction);
+    this.transactions.set(account.accountId, list);
+  }
+
+  private availableUnits(accountId: string): number {
+    const account = this.accounts.get(accountId);
+    return account ? account.balanceUnits - this.heldUnits(accountId) : 0;
+  }
+
+  private heldUnits(accountId: string): number {
+    let units = 0;
+    for (const hold of this.holds.values()) {
+      if (hold.accountId === accountId) units += toUnits(hold.amount);
+    }
+    return units;
+  }
+
+  /**
+   * Append an event to the file, in order with earlier ones
+   */
+  private append(event: AccountEvent): Promise<void> {
+    const path = this.path;
+    if (!path) return Promise.resolve();
+
+    this.writes = this.writes.catch(() => undefined).then(async () => {
+      await mkdir(dirname(path), { recursive: true });
+      await appendFile(path, JSON.stringify(event) + '\n');
+    });
+    return this.writes;
+  }
+
+  /**
+   * Replay the file, skipping unreadable lines
+   */
+  private load(): void {
+    if (!this.path || !existsSync(this.path)) return;
+
+    let skipped = 0;
+    for (const line of readFileSync(this.path, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        this.apply(JSON.parse(line) as AccountEvent);
+      } catch {
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      console.warn(`⚠️ Skipped ${skipped} unreadable account events in ${this.path}`);
+    }
+  }
+}
+
+export const accountManager = new AccountManager(
+  CONFIG.accounts.store === 'file' ? CONFIG.accounts.file : undefined
+);
@@ -0,0 +1,180 @@
+/**
+ * Job Callback Delivery
+ *
+ * Callback URLs are chosen by the caller, so without checks they would let
+ * anyone make the agent POST to its own network (SSRF)
+ * - Only http(s) URLs whose host resolves to public addresses are accepted
+ * - Loopback, private, link-local, CGNAT, multicast and reserved ranges are
+ *   refused, IPv4-mapped IPv6 included
+ * - Addresses are checked again when delivery connects, so a host that
+ *   re-resolves to an internal address after submission is still refused
+ * - Hosts in CALLBACK_ALLOWED_HOSTS skip the address check, e.g. for a
+ *   receiver on the same private network
+ */
+
+import { lookup, type LookupAddress, type LookupOptions } from 'dns';
+import { lookup as lookupAsync } from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+import { CONFIG } from './config.js';
+
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],       // "this" network
+  ['10.0.0.0', 8],      // private
+  ['100.64.0.0', 10],   // carrier-grade NAT
+  ['127.0.0.0', 8],     // loopback
+  ['169.254.0.0', 16],  // link-local, cloud metadata
+  ['172.16.0.0', 12],   // private
+  ['192.0.0.0', 24],    // protocol assignments
+  ['192.168.0.0', 16],  // private
+  ['198.18.0.0', 15],   // benchmarking
+  ['224.0.0.0', 4],     // multicast
+  ['240.0.0.0', 4],     // reserved, broadcast
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],          // unspecified
+  ['::1', 128],         // loopback
+  ['64:ff9b:1::', 48],  // local NAT64
+  ['fc00::', 7],        // unique local
+  ['fe80::', 10],       // link-local
+  ['ff00::', 8],        // multicast
+] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Raised for a callback URL the agent will not deliver to
+ */
+export class CallbackUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CallbackUrlError';
+  }
+}
+
+/**
+ * Whether an IP address is outside the public internet
+ *
+ * @param address - IPv4 or IPv6 address
+ */
+export function isNonPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return NON_PUBLIC.check(mapped[1], 'ipv4');
+  }
+  return NON_PUBLIC.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+function isAllowedHost(hostname: string): boolean {
+  return CONFIG.jobs.callbackAllowedHosts.includes(hostname.toLowerCase());
+}
+
+/**
+ * Host of a URL without IPv6 brackets
+ */
+function hostOf(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+function assertPublic(hostname: string, addresses: string[]): void {
+  const blocked = addresses.find(isNonPublicAddress);
+  if (blocked) {
+    throw new CallbackUrlError(`Callback host ${hostname} resolves to non-public address ${blocked}`);
+  }
+}
+
+/**
+ * Check a callback URL before accepting a job
+ *
+ * @param callbackUrl - URL supplied by the caller
+ * @throws CallbackUrlError when it is not http(s) or reaches a non-public address
+ */
+export async function checkCallbackUrl(callbackUrl: string): Promise<void> {
+  const url = new URL(callbackUrl);
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new CallbackUrlError('Callback URL must be http(s)');
+  }
+
+  const hostname = hostOf(url);
+  if (isAllowedHost(hostname)) return;
+
+  if (isIP(hostname)) {
+    assertPublic(hostname, [hostname]);
+    return;
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookupAsync(hostname, { all: true });
+  } catch {
+    throw new CallbackUrlError(`Callback host ${hostname} does not resolve`);
+  }
+  assertPublic(hostname, addresses.map(({ address }) => address));
+}
+
+/**
+ * DNS lookup for delivery connections that fails on non-public addresses
+ */
+function publicLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+): void {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+
+    try {
+      assertPublic(hostname, addresses.map(({ address }) => address));
+    } catch (blocked: any) {
+      return callback(blocked, []);
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
+
+/**
+ * POST a body to a callback URL, checking every address it connects to
+ *
+ * @param callbackUrl - Checked callback URL
+ * @param headers - Request headers
+ * @param body - Exact body to send
+ * @param timeoutMs - Give up after this long
+ * @returns HTTP status of the response
+ */
+export async function postCallback(
+  callbackUrl: string,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number
+): Promise<number> {
+  // IP literals never reach the lookup, so they are checked here
+  await checkCallbackUrl(callbackUrl);
+
+  const url = new URL(callbackUrl);
+  const transport = url.protocol === 'https:' ? https : http;
+  const allowed = isAllowedHost(hostOf(url));
+
+  return new Promise((resolve, reject) => {
+    const request = transport.request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: allowed ? undefined : publicLookup,
+      signal: AbortSignal.timeout(timeoutMs),
+    }, (response) => {
+      response.resume(); // the body is not used
+      resolve(response.statusCode ?? 0);
+    });
+
+    request.on('error', reject);
+    request.end(body);
+  });
+}
@@ -4,9 +4,20 @@
  * Centralized configuration for:
  * - Wallet addresses (Base, ETH, Solana)
  * - Network settings
+ * - Payment networks (Base, Ethereum, Base Sepolia, Solana, local chain)
  * - x402 payment protocol
+ * - Local facilitator for testnet and local-chain payments
  * - Sandbox security limits
- * - Pricing tiers
+ * - Pricing tiers and metering rates
+ * - Settlement of unsuccessful executions
+ * - Proof signing
+ * - Execution history
+ * - Payment nonce ledger
+ * - Prepaid credit accounts
+ * - MCP server
+ * - Lucid agent model
+ * - Async jobs
+ * - Execution pool
  */
 
 import { config } from 'dotenv';
@@ -31,22 +42,105 @@ export const BASE_NETWORK = {
   chainId: parseInt(process.env.BASE_CHAIN_ID || '8453'),
   rpcUrl: process.env.BASE_RPC_URL || 'https://mainnet.base.org',
   usdcAddress: process.env.USDC_CONTRACT_ADDRESS || '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+  // EIP-712 domain of the USDC contract, signed over by payment authorizations
+  usdcName: process.env.USDC_EIP712_NAME || 'USD Coin',
+  usdcVersion: process.env.USDC_EIP712_VERSION || '2',
+} as const;
+
+/**
+ * Network profile: which chains are paid on by default
+ * 'mainnet' takes real USDC; 'testnet' Base Sepolia USDC; 'local' the
+ * mock USDC of a local chain, settled by the bundled facilitator
+ */
+export type NetworkProfile = 'mainnet' | 'testnet' | 'local';
+
+const NETWORK_PROFILE = (process.env.NETWORK_PROFILE || 'mainnet') as NetworkProfile;
+
+const PROFILE_NETWORKS: Record<NetworkProfile, { enabled: string; default: string }> = {
+  mainnet: { enabled: 'base,ethereum,solana', default: 'base' },
+  testnet: { enabled: 'base-sepolia', default: 'base-sepolia' },
+  local: { enabled: 'local', default: 'local' },
+};
+
+/**
+ * Bundled facilitator stand-in (npm run facilitator)
+ * 'ledger' keeps a mock USDC in memory and serves it over JSON-RPC;
+ * 'chain' submits transferWithAuthorization to a real chain's USDC
+ */
+export const LOCAL_FACILITATOR_CONFIG = {
+  port: parseInt(process.env.FACILITATOR_PORT || '4020'),
+  mode: (process.env.FACILITATOR_MODE || 'ledger') as 'ledger' | 'chain',
+  // Network the ledger's mock USDC lives on
+  network: process.env.FACILITATOR_NETWORK || 'local',
+  // Pays gas in 'chain' mode; defaults to Anvil's first dev account
+  privateKey: process.env.FACILITATOR_PRIVATE_KEY || '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80',
+} as const;
+
+/**
+ * Chains accepting USDC payments, beyond Base
+ * `enabled` lists the networks offered in 402 responses, in order;
+ * `default` is assumed for payments that do not name a network.
+ * Base Sepolia and local are test networks: enable them only where test
+ * funds may pay for executions.
+ */
+export const PAYMENT_NETWORKS = {
+  profile: NETWORK_PROFILE,
+  enabled: (process.env.PAYMENT_NETWORKS || PROFILE_NETWORKS[NETWORK_PROFILE]?.enabled || '')
+    .split(',')
+    .map((id) => id.trim()),
+  default: process.env.DEFAULT_PAYMENT_NETWORK || PROFILE_NETWORKS[NETWORK_PROFILE]?.default || 'base',
+  ethereum: {
+    chainId: parseInt(process.env.ETH_CHAIN_ID || '1'),
+    rpcUrl: process.env.ETH_RPC_URL || 'https://ethereum-rpc.publicnode.com',
+    usdcAddress: process.env.ETH_USDC_ADDRESS || '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    usdcName: process.env.ETH_USDC_EIP712_NAME || 'USD Coin',
+    usdcVersion: process.env.ETH_USDC_EIP712_VERSION || '2',
+  },
+  baseSepolia: {
+    chainId: parseInt(process.env.BASE_SEPOLIA_CHAIN_ID || '84532'),
+    rpcUrl: process.env.BASE_SEPOLIA_RPC_URL || 'https://sepolia.base.org',
+    usdcAddress: process.env.BASE_SEPOLIA_USDC_ADDRESS || '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    usdcName: process.env.BASE_SEPOLIA_USDC_EIP712_NAME || 'USDC',
+    usdcVersion: process.env.BASE_SEPOLIA_USDC_EIP712_VERSION || '2',
+  },
+  solana: {
+    rpcUrl: process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
+    usdcMint: process.env.SOLANA_USDC_MINT || 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+  },
+  // Anvil-style chain; by default the bundled facilitator's mock USDC and JSON-RPC
+  local: {
+    chainId: parseInt(process.env.LOCAL_CHAIN_ID || '31337'),
+    rpcUrl: process.env.LOCAL_RPC_URL || `http://127.0.0.1:${LOCAL_FACILITATOR_CONFIG.port}/rpc`,
+    // First contract deployed by Anvil's first dev account
+    usdcAddress: process.env.LOCAL_USDC_ADDRESS || '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    usdcName: process.env.LOCAL_USDC_EIP712_NAME || 'USD Coin',
+    usdcVersion: process.env.LOCAL_USDC_EIP712_VERSION || '2',
+  },
 } as const;
 
 /**
  * x402 Protocol configuration
  */
 export const X402_CONFIG = {
-  facilitatorUrl: process.env.X402_FACILITATOR_URL || 'https://facilitator.x402.org',
+  // The local profile always uses the bundled facilitator, never the hosted one
+  facilitatorUrl: NETWORK_PROFILE === 'local'
+    ? process.env.LOCAL_FACILITATOR_URL || `http://127.0.0.1:${LOCAL_FACILITATOR_CONFIG.port}`
+    : process.env.X402_FACILITATOR_URL || 'https://facilitator.x402.org',
   facilitatorName: process.env.FACILITATOR_NAME || 'Daydreams',
   paymentToken: process.env.PAYMENT_TOKEN || 'USDC',
   network: process.env.NETWORK || 'base',
   // x402 payment verification timeout (5 minutes)
   paymentTimeout: 300000,
+  // Read the payer's USDC balance before accepting an authorization
+  checkBalance: process.env.X402_CHECK_BALANCE === 'true',
+  // Accept locally verified authorizations without the facilitator (development only)
+  simulatePayments: process.env.X402_SIMULATE_PAYMENTS === 'true',
 } as const;
 
 /**
- * Pricing tiers in USDC
+ * Maximum price per execution for each tier, in USDC
+ * This is what the payer authorizes, and what an x402 payment moves; the
+ * metered charge debited from prepaid credit never exceeds it.
  * These align with x402 micropayment standards ($0.01-$0.05)
  */
 export const PRICING = {
@@ -55,6 +149,30 @@ export const PRICING = {
   premium: parseFloat(process.env.PREMIUM_EXECUTION_PRICE || '0.05'),
 } as const;
 
+/**
+ * Metered pricing rates in USDC, charged to prepaid credit
+ * Charge = base fee + CPU-seconds + GB-seconds of peak heap, capped at PRICING
+ */
+export const METERING_RATES = {
+  baseFee: {
+    basic: parseFloat(process.env.BASIC_BASE_FEE || '0.001'),
+    standard: parseFloat(process.env.STANDARD_BASE_FEE || '0.002'),
+    premium: parseFloat(process.env.PREMIUM_BASE_FEE || '0.005'),
+  },
+  cpuPerSecond: parseFloat(process.env.PRICE_PER_CPU_SECOND || '0.001'),
+  memoryPerGBSecond: parseFloat(process.env.PRICE_PER_GB_SECOND || '0.002'),
+} as const;
+
+/**
+ * What to settle for executions that did not succeed
+ * 'none' charges nothing, 'base' only the tier's base fee,
+ * 'metered' the usual usage charge
+ */
+export const SETTLEMENT_POLICY = {
+  failed: (process.env.SETTLE_FAILED_POLICY || 'none') as 'none' | 'base' | 'metered',
+  timeout: (process.env.SETTLE_TIMEOUT_POLICY || 'metered') as 'none' | 'base' | 'metered',
+} as const;
+
 /**
  * Sandbox security limits
  * Prevents resource exhaustion and ensures fair usage
@@ -62,7 +180,84 @@ export const PRICING = {
 export const SANDBOX_LIMITS = {
   maxExecutionTime: parseInt(process.env.MAX_EXECUTION_TIME_MS || '30000'), // 30 seconds
   maxMemory: parseInt(process.env.MAX_MEMORY_MB || '128') * 1024 * 1024, // 128MB in bytes
-  allowedLanguages: (process.env.ALLOWED_LANGUAGES || 'javascript,python').split(','),
+  // Subset of registered runtimes to enable; '*' enables all of them
+  allowedLanguages: (process.env.ALLOWED_LANGUAGES || '*').split(','),
+} as const;
+
+/**
+ * Execution proof signing
+ * Proofs are signed with this key; an ephemeral key is used when unset
+ */
+export const PROOF_CONFIG = {
+  signerPrivateKey: process.env.AGENT_PRIVATE_KEY,
+} as const;
+
+/**
+ * Execution history storage
+ * 'file' appends to a JSON Lines file; 'memory' keeps records until restart
+ */
+export const HISTORY_CONFIG = {
+  store: (process.env.HISTORY_STORE || 'file') as 'file' | 'memory',
+  file: process.env.HISTORY_FILE || './data/executions.jsonl',
+  maxRecords: parseInt(process.env.HISTORY_MAX_RECORDS || '10000'), // newest executions kept
+} as const;
+
+/**
+ * Ledger of used payment nonces, guarding against replayed X-PAYMENT headers
+ * 'file' survives restarts; 'memory' only protects until the process exits
+ */
+export const NONCE_LEDGER_CONFIG = {
+  store: (process.env.NONCE_STORE || 'file') as 'file' | 'memory',
+  file: process.env.NONCE_FILE || './data/nonces.jsonl',
+} as const;
+
+/**
+ * Prepaid credit accounts, funded by x402 deposits and used with an API key
+ * 'file' appends accounts and transactions to a JSON Lines file
+ */
+export const ACCOUNTS_CONFIG = {
+  store: (process.env.ACCOUNT_STORE || 'file') as 'file' | 'memory',
+  file: process.env.ACCOUNT_FILE || './data/accounts.jsonl',
+  minDeposit: parseFloat(process.env.ACCOUNT_MIN_DEPOSIT || '1.00'), // USDC
+} as const;
+
+/**
+ * MCP server
+ * The stdio bridge relays to the agent at serverUrl, sending the API key to
+ * pay for executions the host forwards no payment for; over HTTP the
+ * caller's own key is used
+ */
+export const MCP_CONFIG = {
+  apiKey: process.env.MCP_API_KEY,
+  serverUrl: process.env.MCP_SERVER_URL, // agent the stdio bridge relays to; defaults to this host's port
+} as const;
+
+/**
+ * Async execution jobs
+ */
+export const JOBS_CONFIG = {
+  concurrency: parseInt(process.env.JOB_CONCURRENCY || '2'),
+  // Finished jobs stay pollable for 1 hour
+  retentionMs: parseInt(process.env.JOB_RETENTION_MS || '3600000'),
+  // Callback hosts delivered to even when they resolve to non-public addresses
+  callbackAllowedHosts: (process.env.CALLBACK_ALLOWED_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean),
+} as const;
+
+/**
+ * Execution pool: concurrent executions per tier and how many may wait
+ */
+export const POOL_CONFIG = {
+  concurrency: {
+    basic: parseInt(process.env.POOL_CONCURRENCY_BASIC || '4'),
+    standard: parseInt(process.env.POOL_CONCURRENCY_STANDARD || '2'),
+    premium: parseInt(process.env.POOL_CONCURRENCY_PREMIUM || '1'),
+  },
+  queueLimit: parseInt(process.env.POOL_QUEUE_LIMIT || '10'),
+  // Isolates kept ready for basic-tier JavaScript and TypeScript
+  prewarmIsolates: parseInt(process.env.POOL_PREWARM_ISOLATES || '2'),
 } as const;
 
 /**
@@ -71,6 +266,8 @@ export const SANDBOX_LIMITS = {
 export const SERVER_CONFIG = {
   port: parseInt(process.env.PORT || '3000'),
   nodeEnv: process.env.NODE_ENV || 'development',
+  // Public origin used in payment requirements; defaults to the request's host
+  publicUrl: process.env.PUBLIC_URL?.replace(/\/+$/, ''),
 } as const;
 
 /**
@@ -79,6 +276,7 @@ export const SERVER_CONFIG = {
 export const AI_CONFIG = {
   openaiApiKey: process.env.OPENAI_API_KEY,
   modelName: process.env.MODEL_NAME || 'gpt-4-turbo-preview',
+  maxSteps: parseInt(process.env.AGENT_MAX_STEPS || '5'), // model calls per agent run
 } as const;
 
 /**
@@ -96,9 +294,20 @@ export const AGENT_METADATA = {
 export const CONFIG = {
   wallets: WALLET_ADDRESSES,
   network: BASE_NETWORK,
+  networks: PAYMENT_NETWORKS,
   x402: X402_CONFIG,
+  facilitator: LOCAL_FACILITATOR_CONFIG,
   pricing: PRICING,
+  metering: METERING_RATES,
+  settlement: SETTLEMENT_POLICY,
   sandbox: SANDBOX_LIMITS,
+  proofs: PROOF_CONFIG,
+  history: HISTORY_CONFIG,
+  nonces: NONCE_LEDGER_CONFIG,
+  accounts: ACCOUNTS_CONFIG,
+  mcp: MCP_CONFIG,
+  jobs: JOBS_CONFIG,
+  pool: POOL_CONFIG,
   server: SERVER_CONFIG,
   ai: AI_CONFIG,
   agent: AGENT_METADATA,
@@ -0,0 +1,92 @@
+/**
+ * Execute Endpoint Schema
+ * 
+ * x402 outputSchema advertised in 402 responses for /api/execute.
+ * Built from the runtime registry so the advertised languages
+ * always match what the sandbox can run.
+ */
+
+import { runtimeRegistry } from './runtimes/index.js';
+
+/**
+ * Build the x402 outputSchema describing the execute request/response
+ */
+export function createExecuteOutputSchema() {
+  const languages = runtimeRegistry.languages();
+
+  return {
+    input: {
+      type: "http",
+      method: "POST",
+      bodyType: "json",
+      bodyFields: {
+        code: {
+          type: "string",
+          required: true,
+          description: `Source code to execute (${languages.join(', ')})`,
+        },
+        language: {
+          type: "string",
+          required: true,
+          description: "Programming language",
+          enum: languages,
+        },
+        tier: {
+          type: "string",
+          required: true,
+          description: "Execution tier",
+          enum: ["basic", "standard", "premium"],
+        },
+        input: {
+          type: "object",
+          required: false,
+          description: "{ data, stdin }: JSON exposed as INPUT, text readable as stdin",
+        },
+        deterministic: {
+          type: "object",
+          required: false,
+          description: "{ seed, startTime? }: seeded randomness and frozen clock for reproducible runs and proofs",
+        },
+        async: {
+          type: "boolean",
+          required: false,
+          description: "Queue the execution and return 202 with a jobId to poll at /api/jobs/:id",
+        },
+        callbackUrl: {
+          type: "string",
+          required: false,
+          description: "With async, URL that receives the finished job as a signed POST",
+        },
+      },
+    },
+    output: {
+      type: "object",
+      properties: {
+        success: {
+          type: "boolean",
+          description: "Execution success status",
+        },
+        output: {
+          type: "string",
+          description: "Console output",
+        },
+        logs: {
+          type: "array",
+          description: "Console lines as { stream, level, message, timestampMs }",
+        },
+        result: {
+          type: "object",
+          description: "JSON value from result(), export default or the last expression",
+        },
+        executionTime: {
+          type: "number",
+          description: "Execution time in ms",
+        },
+        metrics: {
+          type: "object",
+          description: "{ wallTimeMs, setupTimeMs, compileTimeMs, runTimeMs, cpuTimeMs, peakHeapBytes, externalMemoryBytes }",
+        },
+      },
+    },
+  };
+}
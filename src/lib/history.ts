@@ -0,0 +1,406 @@
+/**
+ * Execution History Store
+ *
+ * Records every execution with its proof and the payment that covered it,
+ * so executions can be looked up by ID and reconciled per payer
+ * - memory: kept for the life of the process
+ * - file: appended to a JSON Lines file and read back on lookup; only an
+ *   index is kept in memory, rebuilt on startup
+ * - Either keeps the newest HISTORY_MAX_RECORDS executions
+ */
+
+import { appendFile, mkdir, writeFile } from 'fs/promises';
+import { closeSync, existsSync, openSync, readSync, renameSync } from 'fs';
+import { dirname } from 'path';
+import { CONFIG } from './config.js';
+import type { ExecutionRequest, ExecutionResult } from './sandbox.js';
+import type { ChargeBreakdown } from './pricing.js';
+import type { PaymentSettlement } from './settlement.js';
+
+/**
+ * Payment that covered an execution
+ */
+export interface ExecutionPayment {
+  payer?: string;
+  amount: number;              // USDC collected: the metered charge; 0 until the run finishes
+  maxAmount: number;           // USDC the payer authorized
+  charge?: ChargeBreakdown;    // metered charge; an x402 authorization is not settled when it is zero
+  settlement?: PaymentSettlement; // set once the charge has been collected
+  accountId?: string;          // paid from this prepaid account's credit
+  credited?: number;           // x402: USDC the settled authorization moved into accountId, the charge included
+  transactionHash?: string;
+  network: string;
+  token: string;
+}
+
+/**
+ * Stored execution: the request, its result and the payment
+ */
+export interface ExecutionRecord extends ExecutionResult {
+  language: string;
+  code: string;
+  input?: ExecutionRequest['input'];
+  payment: ExecutionPayment;
+  createdAt: number;
+}
+
+/**
+ * Listing entry, without code, input or output
+ */
+export type ExecutionSummary = Pick<
+  ExecutionRecord,
+  'executionId' | 'language' | 'tier' | 'success' | 'error' | 'executionTime' | 'proof' | 'payment' | 'createdAt'
+>;
+
+export interface ListOptions {
+  limit: number;
+  cursor?: string;  // executionId of the last entry on the previous page
+}
+
+export interface ExecutionPage {
+  executions: ExecutionSummary[];
+  nextCursor?: string;
+}
+
+export interface ExecutionStore {
+  save(record: ExecutionRecord): Promise<void>;
+  get(executionId: string): Promise<ExecutionRecord | undefined>;
+  listByPayer(payer: string, options: ListOptions): Promise<ExecutionPage>;
+}
+
+/**
+ * Reduce a record to its listing entry
+ */
+function summarize(record: ExecutionRecord): ExecutionSummary {
+  return {
+    executionId: record.executionId,
+    language: record.language,
+    tier: record.tier,
+    success: record.success,
+    error: record.error,
+    executionTime: record.executionTime,
+    proof: record.proof,
+    payment: record.payment,
+    createdAt: record.createdAt,
+  };
+}
+
+/**
+ * EVM payers compare case-insensitively; base58 Solana payers are
+ * case-sensitive
+ */
+function payerKey(payer: string): string {
+  return payer.startsWith('0x') ? payer.toLowerCase() : payer;
+}
+
+/**
+ * Whether two payer addresses are the same payer
+ */
+export function isSamePayer(a: string, b: string): boolean {
+  return payerKey(a) === payerKey(b);
+}
+
+/**
+ * Newest executions by ID and by payer, oldest first, holding at most
+ * maxRecords; what each entry holds is up to the store
+ */
+class RecordIndex<T> {
+  private entries = new Map<string, { payer?: string; value: T }>();
+  private byPayer = new Map<string, string[]>(); // executionIds, oldest first
+
+  constructor(private maxRecords: number) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(executionId: string): T | undefined {
+    return this.entries.get(executionId)?.value;
+  }
+
+  /**
+   * Add or replace an entry, dropping the oldest past the limit
+   *
+   * @returns Entries dropped
+   */
+  set(executionId: string, payer: string | undefined, value: T): number {
+    const existing = this.entries.get(executionId);
+    if (existing) {
+      existing.value = value;
+      return 0;
+    }
+
+    this.entries.set(executionId, { payer, value });
+    if (payer) {
+      const key = payerKey(payer);
+      const ids = this.byPayer.get(key) ?? [];
+      ids.push(executionId);
+      this.byPayer.set(key, ids);
+    }
+
+    let dropped = 0;
+    for (const [oldestId, oldest] of this.entries) {
+      if (this.entries.size <= this.maxRecords) break;
+      this.entries.delete(oldestId);
+      if (oldest.payer) {
+        const ids = this.byPayer.get(payerKey(oldest.payer))!;
+        ids.splice(ids.indexOf(oldestId), 1);
+        if (ids.length === 0) this.byPayer.delete(payerKey(oldest.payer));
+      }
+      dropped++;
+    }
+    return dropped;
+  }
+
+  /**
+   * One page of a payer's execution IDs, newest first; the cursor is the
+   * last ID already returned
+   */
+  page(payer: string, { limit, cursor }: ListOptions): { ids: string[]; nextCursor?: string } {
+    const ids = this.byPayer.get(payerKey(payer)) ?? [];
+
+    let end = ids.length;
+    if (cursor) {
+      const position = ids.indexOf(cursor);
+      end = position === -1 ? 0 : position;
+    }
+    const start = Math.max(0, end - limit);
+    const page = ids.slice(start, end).reverse();
+
+    return { ids: page, nextCursor: start > 0 ? page[page.length - 1] : undefined };
+  }
+
+  values(): Array<[string, T]> {
+    return [...this.entries].map(([executionId, { value }]) => [executionId, value]);
+  }
+}
+
+export class MemoryExecutionStore implements ExecutionStore {
+  private records: RecordIndex<ExecutionRecord>;
+
+  /**
+   * @param maxRecords - Newest executions kept; older ones are dropped
+   */
+  constructor(maxRecords: number) {
+    this.records = new RecordIndex(maxRecords);
+  }
+
+  async save(record: ExecutionRecord): Promise<void> {
+    this.records.set(record.executionId, record.payment.payer, record);
+  }
+
+  async get(executionId: string): Promise<ExecutionRecord | undefined> {
+    return this.records.get(executionId);
+  }
+
+  async listByPayer(payer: string, options: ListOptions): Promise<ExecutionPage> {
+    const { ids, nextCursor } = this.records.page(payer, options);
+    return { executions: ids.map((id) => summarize(this.records.get(id)!)), nextCursor };
+  }
+}
+
+/**
+ * Byte range of a record's line in the history file
+ */
+interface LineLocation {
+  offset: number;
+  length: number; // without the newline
+}
+
+// Lines are scanned in chunks of this size, so loading never reads the whole file at once
+const LOAD_CHUNK_BYTES = 1024 * 1024;
+
+/**
+ * Executions in a JSON Lines file; only where each line is, and who paid,
+ * is kept in memory, and records are read back from the file on lookup.
+ * Once as many lines have been dropped or replaced as are kept, the file
+ * is rewritten with the kept records only.
+ */
+export class FileExecutionStore implements ExecutionStore {
+  private locations: RecordIndex<LineLocation>;
+  private size = 0;  // bytes in the file
+  private stale = 0; // lines no longer indexed
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path - JSON Lines file, created on first write
+   * @param maxRecords - Newest executions kept; older ones are dropped
+   */
+  constructor(private path: string, private maxRecords: number) {
+    this.locations = new RecordIndex(maxRecords);
+    this.load();
+  }
+
+  async save(record: ExecutionRecord): Promise<void> {
+    const line = Buffer.from(JSON.stringify(record) + '\n');
+
+    // Chain appends so lines land in the order executions finished;
+    // a failed append is reported to its caller without blocking later ones
+    this.writes = this.writes.catch(() => undefined).then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, line);
+
+      const replaced = this.locations.get(record.executionId) ? 1 : 0;
+      const location = { offset: this.size, length: line.length - 1 };
+      this.size += line.length;
+      this.stale += replaced + this.locations.set(record.executionId, record.payment.payer, location);
+
+      if (this.stale >= this.maxRecords) {
+        await this.compact();
+      }
+    });
+    return this.writes;
+  }
+
+  async get(executionId: string): Promise<ExecutionRecord | undefined> {
+    const location = this.locations.get(executionId);
+    return location && this.read(location);
+  }
+
+  async listByPayer(payer: string, options: ListOptions): Promise<ExecutionPage> {
+    const { ids, nextCursor } = this.locations.page(payer, options);
+    return {
+      executions: ids.map((id) => summarize(this.read(this.locations.get(id)!))),
+      nextCursor,
+    };
+  }
+
+  /**
+   * Read one record; synchronous, so it cannot interleave with a rewrite
+   */
+  private read({ offset, length }: LineLocation): ExecutionRecord {
+    const buffer = Buffer.alloc(length);
+    const fd = openSync(this.path, 'r');
+    try {
+      readSync(fd, buffer, 0, length, offset);
+    } finally {
+      closeSync(fd);
+    }
+    return JSON.parse(buffer.toString('utf8')) as ExecutionRecord;
+  }
+
+  /**
+   * Rewrite the file with the indexed records only
+   */
+  private async compact(): Promise<void> {
+    const kept = this.locations.values();
+    const temporary = `${this.path}.tmp`;
+    await writeFile(temporary, '');
+
+    const moved: Array<[string, LineLocation]> = [];
+    let size = 0;
+    for (const [executionId, location] of kept) {
+      const buffer = Buffer.alloc(location.length + 1);
+      const fd = openSync(this.path, 'r');
+      try {
+        readSync(fd, buffer, 0, buffer.length, location.offset);
+      } finally {
+        closeSync(fd);
+      }
+      await appendFile(temporary, buffer);
+      moved.push([executionId, { offset: size, length: location.length }]);
+      size += buffer.length;
+    }
+
+    // Swapped in one go, so reads see either the old file or the new one
+    renameSync(temporary, this.path);
+    for (const [executionId, location] of moved) {
+      this.locations.set(executionId, undefined, location);
+    }
+    this.size = size;
+    this.stale = 0;
+  }
+
+  /**
+   * Index the file line by line, skipping unreadable lines, then drop
+   * what is no longer kept from it
+   */
+  private load(): void {
+    if (!existsSync(this.path)) return;
+
+    let lines = 0;
+    let skipped = 0;
+    const index = (line: Buffer, offset: number) => {
+      if (line.toString('utf8').trim() === '') return;
+      lines++;
+      try {
+        const record = JSON.parse(line.toString('utf8')) as ExecutionRecord;
+        this.locations.set(record.executionId, record.payment.payer, { offset, length: line.length });
+      } catch {
+        skipped++;
+      }
+    };
+
+    const fd = openSync(this.path, 'r');
+    try {
+      const chunk = Buffer.alloc(LOAD_CHUNK_BYTES);
+      let pending: Buffer[] = [];
+      let lineStart = 0;
+      let position = 0;
+
+      for (;;) {
+        const read = readSync(fd, chunk, 0, chunk.length, position);
+        if (read === 0) break;
+
+        let from = 0;
+        for (let newline = chunk.indexOf(10, from); newline !== -1 && newline < read; newline = chunk.indexOf(10, from)) {
+          pending.push(Buffer.from(chunk.subarray(from, newline)));
+          index(Buffer.concat(pending), lineStart);
+          pending = [];
+          lineStart = position + newline + 1;
+          from = newline + 1;
+        }
+        pending.push(Buffer.from(chunk.subarray(from, read)));
+        position += read;
+      }
+
+      index(Buffer.concat(pending), lineStart);
+      this.size = position;
+    } finally {
+      closeSync(fd);
+    }
+
+    this.stale = lines - this.locations.size;
+
+    if (skipped > 0) {
+      console.warn(`⚠️ Skipped ${skipped} unreadable execution records in ${this.path}`);
+    }
+  }
+}
+
+/**
+ * Create the store selected by configuration
+ */
+export function createExecutionStore(): ExecutionStore {
+  return CONFIG.history.store === 'file'
+    ? new FileExecutionStore(CONFIG.history.file, CONFIG.history.maxRecords)
+    : new MemoryExecutionStore(CONFIG.history.maxRecords);
+}
+
+export const executionStore = createExecutionStore();
+
+/**
+ * Record an execution, logging rather than failing when the store errors
+ *
+ * @param request - Request as executed
+ * @param result - Execution result with proof
+ * @param payment - Payment that covered it
+ */
+export async function recordExecution(
+  request: ExecutionRequest,
+  result: ExecutionResult,
+  payment: ExecutionPayment
+): Promise<void> {
+  try {
+    await executionStore.save({
+      ...result,
+      language: request.language,
+      code: request.code,
+      input: request.input,
+      payment,
+      createdAt: Date.now(),
+    });
+  } catch (error) {
+    console.error(`Failed to record execution ${result.executionId}:`, error);
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Asynchronous Execution Jobs
+ *
+ * Paid executions submitted in async mode are queued and run in the
+ * background instead of holding the HTTP connection open
+ * - Bounded concurrency, FIFO order
+ * - Status and result polled via GET /api/jobs/:id
+ * - Optional callback URL notified on completion, signed with the agent key
+ * - Finished jobs are dropped after a retention period; the execution
+ *   itself stays in the history store
+ */
+
+import { nanoid } from 'nanoid';
+import { CONFIG } from './config.js';
+import { proofSigner } from './proofs.js';
+import { postCallback } from './callbacks.js';
+import type { ExecutionPayment } from './history.js';
+import { SettlementFailedError, type PaymentSource } from './settlement.js';
+import { runPaidExecution } from './paid-execution.js';
+import type { ExecutionRequest, ExecutionResult } from './sandbox.js';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Delivery state of a job's completion callback
+ */
+export interface JobCallback {
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  lastError?: string;
+}
+
+/**
+ * Async execution job, tied to the payment that covered it
+ */
+export interface Job {
+  jobId: string;
+  status: JobStatus;
+  language: string;
+  tier: ExecutionRequest['tier'];
+  payment: ExecutionPayment;
+  callback?: JobCallback;
+  result?: ExecutionResult;
+  error?: string;             // set when the job could not run at all
+  createdAt: number;
+  startedAt?: number;
+  completedAt?: number;
+}
+
+interface QueuedJob {
+  job: Job;
+  request: ExecutionRequest;
+  source: PaymentSource; // settled once the job has run
+}
+
+const CALLBACK_TIMEOUT_MS = 10000;
+const CALLBACK_RETRY_DELAYS_MS = [1000, 5000, 30000];
+
+/**
+ * Sleep helper for callback retries
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class JobQueue {
+  private jobs = new Map<string, Job>();
+  private pending: QueuedJob[] = [];
+  private running = 0;
+
+  /**
+   * @param concurrency - Jobs run at the same time
+   * @param retentionMs - How long finished jobs remain available
+   */
+  constructor(private concurrency: number, private retentionMs: number) {}
+
+  /**
+   * Queue an execution
+   *
+   * @param request - Validated execution request
+   * @param payment - Payment authorized for this execution
+   * @param source - Verified authorization or credit hold, settled after the run
+   * @param callbackUrl - Optional URL notified when the job finishes
+   */
+  submit(
+    request: ExecutionRequest,
+    payment: ExecutionPayment,
+    source: PaymentSource,
+    callbackUrl?: string
+  ): Job {
+    const job: Job = {
+      jobId: nanoid(16),
+      status: 'queued',
+      language: request.language,
+      tier: request.tier,
+      payment,
+      callback: callbackUrl ? { url: callbackUrl, status: 'pending', attempts: 0 } : undefined,
+      createdAt: Date.now(),
+    };
+
+    this.jobs.set(job.jobId, job);
+    this.pending.push({ job, request, source });
+    this.drain();
+
+    return job;
+  }
+
+  get(jobId: string): Job | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  /**
+   * 1-based place of a queued job in line, or undefined once it has started
+   */
+  position(jobId: string): number | undefined {
+    const index = this.pending.findIndex((queued) => queued.job.jobId === jobId);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  /**
+   * Jobs waiting to start
+   */
+  get depth(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Start queued jobs while below the concurrency limit
+   */
+  private drain(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const next = this.pending.shift()!;
+      this.running++;
+      this.run(next).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  private async run({ job, request, source }: QueuedJob): Promise<void> {
+    job.status = 'running';
+    job.startedAt = Date.now();
+
+    try {
+      // Jobs are already queued here, so they wait for a pool slot however long it takes
+      const { result, payment } = await runPaidExecution(request, job.payment, source, { waitForSlot: true });
+
+      job.payment = payment;
+      job.result = result;
+      job.status = 'completed';
+      console.log(`✅ Job ${job.jobId} completed as execution ${result.executionId}`);
+    } catch (error: any) {
+      if (error instanceof SettlementFailedError) {
+        job.payment = error.payment;
+      }
+      job.status = 'failed';
+      job.error = error.message || 'Unknown job error';
+      console.error(`Job ${job.jobId} failed:`, error);
+    }
+
+    job.completedAt = Date.now();
+
+    if (job.callback) {
+      await this.notify(job);
+    }
+
+    setTimeout(() => this.jobs.delete(job.jobId), this.retentionMs).unref();
+  }
+
+  /**
+   * POST the finished job to its callback URL, retrying with backoff
+   *
+   * The body is signed like execution proofs: X-Signature is an EIP-191
+   * signature over the SHA-256 of the exact body, by X-Signer. Delivery
+   * refuses non-public addresses, as checked when the job was submitted.
+   *
+   * @param job - Finished job with a callback
+   */
+  private async notify(job: Job): Promise<void> {
+    const callback = job.callback!;
+    const { callback: _, ...payload } = job;
+    const body = JSON.stringify({ ...payload, timestamp: Date.now() });
+    const { digest, signature } = await proofSigner.signData(body);
+
+    for (let attempt = 0; attempt <= CALLBACK_RETRY_DELAYS_MS.length; attempt++) {
+      if (attempt > 0) {
+        await delay(CALLBACK_RETRY_DELAYS_MS[attempt - 1]);
+      }
+      callback.attempts++;
+
+      try {
+        const status = await postCallback(callback.url, {
+          'Content-Type': 'application/json',
+          'X-Signer': proofSigner.address,
+          'X-Signature': signature,
+          'X-Digest': digest,
+        }, body, CALLBACK_TIMEOUT_MS);
+
+        if (status >= 200 && status < 300) {
+          callback.status = 'delivered';
+          callback.lastError = undefined;
+          return;
+        }
+        callback.lastError = `Callback responded ${status}`;
+      } catch (error: any) {
+        callback.lastError = error.message || 'Callback request failed';
+      }
+    }
+
+    callback.status = 'failed';
+    console.error(`Job ${job.jobId} callback to ${callback.url} failed: ${callback.lastError}`);
+  }
+}
+
+export const jobQueue = new JobQueue(CONFIG.jobs.concurrency, CONFIG.jobs.retentionMs);
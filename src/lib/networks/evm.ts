@@ -0,0 +1,143 @@
+/**
+ * EVM Payment Networks
+ *
+ * USDC payments on EVM chains as EIP-3009 TransferWithAuthorization
+ * - Signature recovered locally against the token's EIP-712 domain
+ * - Balance and settlement status read over the chain's RPC
+ */
+
+import {
+  createPublicClient,
+  erc20Abi,
+  http,
+  verifyTypedData,
+  type Address,
+  type Chain,
+  type Hex,
+  type PublicClient,
+} from 'viem';
+import type { PaymentAdapter, PaymentNetwork, PaymentPayload, PaymentStatus } from './types.js';
+
+/**
+ * EIP-3009 authorization, as typed data signed by the payer
+ */
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+} as const;
+
+export interface EvmNetworkConfig {
+  id: string;
+  name: string;
+  chain: Chain;
+  chainId: number;
+  rpcUrl: string;
+  payTo: string;
+  usdcAddress: string;
+  usdcName: string;    // EIP-712 domain name of the USDC contract
+  usdcVersion: string; // EIP-712 domain version
+  testnet: boolean;
+}
+
+export class EvmPaymentAdapter implements PaymentAdapter {
+  readonly network: PaymentNetwork;
+  private client: PublicClient;
+
+  constructor(readonly config: EvmNetworkConfig) {
+    this.network = {
+      id: config.id,
+      name: config.name,
+      chainId: config.chainId,
+      payTo: config.payTo,
+      asset: config.usdcAddress,
+      testnet: config.testnet,
+    };
+    this.client = createPublicClient({
+      chain: config.chain,
+      transport: http(config.rpcUrl),
+    }) as PublicClient;
+  }
+
+  /**
+   * EIP-712 domain of the network's USDC contract
+   */
+  domain() {
+    return {
+      name: this.config.usdcName,
+      version: this.config.usdcVersion,
+      chainId: this.config.chainId,
+      verifyingContract: this.config.usdcAddress as Address,
+    };
+  }
+
+  requirementExtra(): Record<string, unknown> {
+    return { name: this.config.usdcName, version: this.config.usdcVersion, chainId: this.config.chainId };
+  }
+
+  sameAddress(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+
+  async verifyAuthorization(payload: PaymentPayload): Promise<string | undefined> {
+    try {
+      const valid = await verifyTypedData({
+        address: payload.from as Address,
+        domain: this.domain(),
+        types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+        primaryType: 'TransferWithAuthorization',
+        message: {
+          from: payload.from as Address,
+          to: payload.to as Address,
+          value: BigInt(payload.value),
+          validAfter: BigInt(payload.validAfter),
+          validBefore: BigInt(payload.validBefore),
+          nonce: payload.nonce as Hex,
+        },
+        signature: payload.signature as Hex,
+      });
+      return valid ? undefined : 'Invalid payment signature';
+    } catch {
+      // Malformed addresses, numbers, nonce or signature
+      return 'Invalid payment signature';
+    }
+  }
+
+  authorizationId(payload: PaymentPayload): string {
+    return payload.nonce;
+  }
+
+  async validity(payload: PaymentPayload): Promise<{ error: string } | { validBefore: number }> {
+    // Both bounds are part of the signed TransferWithAuthorization
+    const now = Math.floor(Date.now() / 1000);
+    const validAfter = parseInt(payload.validAfter);
+    const validBefore = parseInt(payload.validBefore);
+
+    if (now < validAfter || now > validBefore) {
+      return { error: 'Payment authorization expired' };
+    }
+    return { validBefore };
+  }
+
+  async getBalance(address: string): Promise<bigint> {
+    return this.client.readContract({
+      address: this.config.usdcAddress as Address,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [address as Address],
+    });
+  }
+
+  async getPaymentStatus(txHash: string): Promise<PaymentStatus> {
+    const receipt = await this.client.getTransactionReceipt({ hash: txHash as Hex });
+    return {
+      confirmed: receipt.status === 'success',
+      blockNumber: receipt.blockNumber,
+    };
+  }
+}
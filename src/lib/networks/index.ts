@@ -0,0 +1,66 @@
+/**
+ * Built-in Payment Networks
+ *
+ * Importing this module registers every supported chain; PAYMENT_NETWORKS
+ * selects which of them are offered. To add a chain, implement
+ * PaymentAdapter and register it here.
+ */
+
+import { anvil, base, baseSepolia, mainnet } from 'viem/chains';
+import { CONFIG } from '../config.js';
+import { paymentNetworks } from './registry.js';
+import { EvmPaymentAdapter } from './evm.js';
+import { SolanaPaymentAdapter } from './solana.js';
+
+paymentNetworks.register(new EvmPaymentAdapter({
+  id: 'base',
+  name: 'Base',
+  chain: base,
+  chainId: CONFIG.network.chainId,
+  rpcUrl: CONFIG.network.rpcUrl,
+  payTo: CONFIG.wallets.base,
+  usdcAddress: CONFIG.network.usdcAddress,
+  usdcName: CONFIG.network.usdcName,
+  usdcVersion: CONFIG.network.usdcVersion,
+  testnet: false,
+}));
+
+paymentNetworks.register(new EvmPaymentAdapter({
+  id: 'ethereum',
+  name: 'Ethereum Mainnet',
+  chain: mainnet,
+  ...CONFIG.networks.ethereum,
+  payTo: CONFIG.wallets.ethereum,
+  testnet: false,
+}));
+
+paymentNetworks.register(new EvmPaymentAdapter({
+  id: 'base-sepolia',
+  name: 'Base Sepolia',
+  chain: baseSepolia,
+  ...CONFIG.networks.baseSepolia,
+  payTo: CONFIG.wallets.base,
+  testnet: true,
+}));
+
+paymentNetworks.register(new EvmPaymentAdapter({
+  id: 'local',
+  name: 'Local Chain',
+  chain: { ...anvil, id: CONFIG.networks.local.chainId },
+  ...CONFIG.networks.local,
+  payTo: CONFIG.wallets.base,
+  testnet: true,
+}));
+
+paymentNetworks.register(new SolanaPaymentAdapter({
+  id: 'solana',
+  name: 'Solana Mainnet',
+  ...CONFIG.networks.solana,
+  payTo: CONFIG.wallets.solana,
+  testnet: false,
+}));
+
+export { paymentNetworks, PaymentNetworkRegistry } from './registry.js';
+export { EvmPaymentAdapter, type EvmNetworkConfig } from './evm.js';
+export { SolanaPaymentAdapter, type SolanaNetworkConfig } from './solana.js';
+export type { PaymentAdapter, PaymentNetwork, PaymentPayload, PaymentStatus } from './types.js';
@@ -0,0 +1,68 @@
+/**
+ * Payment Network Registry
+ *
+ * Single source of truth for which chains accept payments. The 402
+ * payment requirements, verification and settlement all dispatch
+ * through the registered adapters.
+ */
+
+import { CONFIG } from '../config.js';
+import type { PaymentAdapter, PaymentNetwork } from './types.js';
+
+export class PaymentNetworkRegistry {
+  private adapters = new Map<string, PaymentAdapter>();
+
+  /**
+   * Register a payment network
+   *
+   * @param adapter - Network implementation
+   */
+  register(adapter: PaymentAdapter): void {
+    if (this.adapters.has(adapter.network.id)) {
+      throw new Error(`Payment network ${adapter.network.id} is already registered`);
+    }
+    this.adapters.set(adapter.network.id, adapter);
+  }
+
+  /**
+   * Whether a network is registered and enabled by PAYMENT_NETWORKS
+   */
+  has(id: string): boolean {
+    return this.adapters.has(id) && this.isEnabled(id);
+  }
+
+  /**
+   * Look up an enabled network
+   *
+   * @throws if the network is unknown or disabled
+   */
+  get(id: string): PaymentAdapter {
+    const adapter = this.adapters.get(id);
+    if (!adapter || !this.isEnabled(id)) {
+      throw new Error(`Payment network ${id} not supported`);
+    }
+    return adapter;
+  }
+
+  /**
+   * All enabled networks, in the order PAYMENT_NETWORKS lists them
+   */
+  list(): PaymentAdapter[] {
+    return CONFIG.networks.enabled
+      .filter((id) => this.adapters.has(id))
+      .map((id) => this.adapters.get(id)!);
+  }
+
+  /**
+   * Descriptors of all enabled networks
+   */
+  describe(): PaymentNetwork[] {
+    return this.list().map((adapter) => adapter.network);
+  }
+
+  private isEnabled(id: string): boolean {
+    return CONFIG.networks.enabled.includes(id);
+  }
+}
+
+export const paymentNetworks = new PaymentNetworkRegistry();
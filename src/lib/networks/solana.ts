@@ -0,0 +1,237 @@
+/**
+ * Solana Payment Network
+ *
+ * USDC payments on Solana as a transaction, signed by the payer, holding
+ * an SPL TransferChecked of the exact amount to the agent's USDC account
+ * - The payer's ed25519 signature is checked locally
+ * - The facilitator adds the fee payer signature and submits it
+ * - The payer's signature makes the authorization single-use
+ * - Its lifetime is that of its recent blockhash, which the signature
+ *   covers; validAfter / validBefore are not signed and not used. Durable
+ *   nonce transactions, which never expire, are refused
+ */
+
+import { createPublicKey, verify } from 'crypto';
+import { Connection, PublicKey, VersionedTransaction } from '@solana/web3.js';
+import type { PaymentAdapter, PaymentNetwork, PaymentPayload, PaymentStatus } from './types.js';
+
+const TOKEN_PROGRAM_IDS = [
+  'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  'TokenzQdBNbLqP5VEhdkAS6EPFLC1PFnBqCXEpPxuEb', // Token-2022
+];
+const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+const TRANSFER_CHECKED = 12;
+const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+const ADVANCE_NONCE_ACCOUNT = 4;
+
+// A blockhash is valid for 150 blocks, about a minute; the ledger keeps
+// the transaction's signature well past that
+const BLOCKHASH_LIFETIME_SECONDS = 300;
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// DER prefix turning a raw 32-byte ed25519 key into SPKI, for node's crypto
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+export interface SolanaNetworkConfig {
+  id: string;
+  name: string;
+  rpcUrl: string;
+  payTo: string;
+  usdcMint: string;
+  testnet: boolean;
+}
+
+/**
+ * Base58 text of a transaction signature, as RPC methods take it
+ */
+function toBase58(bytes: Uint8Array): string {
+  let value = BigInt('0x' + (Buffer.from(bytes).toString('hex') || '0'));
+  let text = '';
+  while (value > 0n) {
+    text = BASE58_ALPHABET[Number(value % 58n)] + text;
+    value /= 58n;
+  }
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    text = '1' + text;
+  }
+  return text;
+}
+
+/**
+ * Decoded payment transaction, with the payer's signature
+ */
+interface DecodedPayment {
+  transaction: VersionedTransaction;
+  payerSignature: Uint8Array;
+}
+
+export class SolanaPaymentAdapter implements PaymentAdapter {
+  readonly network: PaymentNetwork;
+  private connection: Connection;
+
+  constructor(private config: SolanaNetworkConfig) {
+    this.network = {
+      id: config.id,
+      name: config.name,
+      payTo: config.payTo,
+      asset: config.usdcMint,
+      testnet: config.testnet,
+    };
+    this.connection = new Connection(config.rpcUrl, 'confirmed');
+  }
+
+  requirementExtra(): Record<string, unknown> {
+    return { tokenProgram: TOKEN_PROGRAM_IDS[0] };
+  }
+
+  sameAddress(a: string, b: string): boolean {
+    // Base58 is case-sensitive
+    return a === b;
+  }
+
+  async verifyAuthorization(payload: PaymentPayload): Promise<string | undefined> {
+    let decoded: DecodedPayment;
+    try {
+      decoded = this.decode(payload);
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid payment transaction';
+    }
+
+    const { transaction, payerSignature } = decoded;
+    const payer = new PublicKey(payload.from);
+    const signed = verify(
+      null,
+      transaction.message.serialize(),
+      createPublicKey({
+        key: Buffer.concat([ED25519_SPKI_PREFIX, payer.toBuffer()]),
+        format: 'der',
+        type: 'spki',
+      }),
+      payerSignature
+    );
+    if (!signed) {
+      return 'Invalid payment signature';
+    }
+
+    return this.findTransfer(transaction, payload)
+      ? undefined
+      : `Transaction does not transfer ${payload.value} USDC base units to ${this.config.payTo}`;
+  }
+
+  authorizationId(payload: PaymentPayload): string {
+    return Buffer.from(this.decode(payload).payerSignature).toString('hex');
+  }
+
+  async validity(payload: PaymentPayload): Promise<{ error: string } | { validBefore: number }> {
+    const { transaction } = this.decode(payload);
+    const { message } = transaction;
+
+    const [first] = message.compiledInstructions;
+    if (
+      first &&
+      message.staticAccountKeys[first.programIdIndex]?.toBase58() === SYSTEM_PROGRAM_ID &&
+      first.data.length >= 4 &&
+      Buffer.from(first.data).readUInt32LE(0) === ADVANCE_NONCE_ACCOUNT
+    ) {
+      return { error: 'Durable nonce payment transactions are not accepted' };
+    }
+
+    const { value: live } = await this.connection.isBlockhashValid(message.recentBlockhash);
+    if (!live) {
+      return { error: 'Payment transaction expired: its recent blockhash is no longer valid' };
+    }
+
+    // Once the fee payer has signed, that signature is the transaction's ID
+    const feePayerSignature = transaction.signatures[0];
+    if (feePayerSignature && feePayerSignature.some((byte) => byte !== 0)) {
+      const { value: status } = await this.connection.getSignatureStatus(toBase58(feePayerSignature), {
+        searchTransactionHistory: true,
+      });
+      if (status) {
+        return { error: 'Payment transaction is already on chain' };
+      }
+    }
+
+    return { validBefore: Math.floor(Date.now() / 1000) + BLOCKHASH_LIFETIME_SECONDS };
+  }
+
+  async getBalance(address: string): Promise<bigint> {
+    const accounts = await this.connection.getParsedTokenAccountsByOwner(new PublicKey(address), {
+      mint: new PublicKey(this.config.usdcMint),
+    });
+    return accounts.value.reduce(
+      (total, { account }) => total + BigInt(account.data.parsed.info.tokenAmount.amount),
+      0n
+    );
+  }
+
+  async getPaymentStatus(txHash: string): Promise<PaymentStatus> {
+    const { value } = await this.connection.getSignatureStatus(txHash);
+    return {
+      confirmed: !value?.err && (value?.confirmationStatus === 'confirmed' || value?.confirmationStatus === 'finalized'),
+      blockNumber: value ? BigInt(value.slot) : undefined,
+    };
+  }
+
+  /**
+   * Deserialize the transaction and find the payer's signature in it
+   *
+   * @throws if the transaction is malformed or the payer has not signed it
+   */
+  private decode(payload: PaymentPayload): DecodedPayment {
+    let transaction: VersionedTransaction;
+    try {
+      transaction = VersionedTransaction.deserialize(Buffer.from(payload.signature, 'base64'));
+    } catch {
+      throw new Error('Invalid payment transaction');
+    }
+
+    const { staticAccountKeys, header } = transaction.message;
+    const index = staticAccountKeys.findIndex((key) => key.toBase58() === payload.from);
+    if (index === -1 || index >= header.numRequiredSignatures) {
+      throw new Error('Payer is not a signer of the payment transaction');
+    }
+
+    const payerSignature = transaction.signatures[index];
+    if (!payerSignature || payerSignature.every((byte) => byte === 0)) {
+      throw new Error('Payment transaction is not signed by the payer');
+    }
+
+    return { transaction, payerSignature };
+  }
+
+  /**
+   * Whether the transaction holds a TransferChecked of exactly the paid
+   * value, from the payer, into the agent's USDC token account
+   */
+  private findTransfer(transaction: VersionedTransaction, payload: PaymentPayload): boolean {
+    const keys = transaction.message.staticAccountKeys;
+    const mint = new PublicKey(this.config.usdcMint);
+
+    return transaction.message.compiledInstructions.some((instruction) => {
+      const program = keys[instruction.programIdIndex]?.toBase58();
+      if (!program || !TOKEN_PROGRAM_IDS.includes(program)) return false;
+
+      const data = Buffer.from(instruction.data);
+      if (data.length < 10 || data[0] !== TRANSFER_CHECKED) return false;
+
+      // Accounts: source, mint, destination, owner; lookup-table accounts are not accepted
+      const [, mintKey, destination, owner] = instruction.accountKeyIndexes.map((i) => keys[i]);
+      if (!mintKey || !destination || !owner) return false;
+
+      const [expectedDestination] = PublicKey.findProgramAddressSync(
+        [new PublicKey(this.config.payTo).toBuffer(), new PublicKey(program).toBuffer(), mint.toBuffer()],
+        ASSOCIATED_TOKEN_PROGRAM_ID
+      );
+
+      return (
+        mintKey.equals(mint) &&
+        destination.equals(expectedDestination) &&
+        owner.toBase58() === payload.from &&
+        data.readBigUInt64LE(1) === BigInt(payload.value)
+      );
+    });
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Payment Network Types
+ *
+ * Contract every chain that accepts x402 payments implements to be
+ * registered with the payment network registry
+ */
+
+/**
+ * Parsed X-PAYMENT header
+ *
+ * Fields are shared by every network; their encoding depends on it.
+ */
+export interface PaymentPayload {
+  scheme: string;
+  network?: string;    // x402 network identifier; 'base' when omitted
+  signature: string;   // EVM: EIP-712 signature; Solana: base64 transaction signed by the payer
+  from: string;        // payer address
+  to: string;          // agent wallet on that network
+  value: string;       // USDC base units
+  validAfter: string;  // unix seconds
+  validBefore: string; // unix seconds
+  nonce: string;       // EVM: EIP-3009 bytes32 nonce; Solana: any unique string
+}
+
+/**
+ * Where and in what asset a network is paid
+ */
+export interface PaymentNetwork {
+  id: string;        // x402 network identifier, e.g. 'base', 'solana'
+  name: string;      // human readable
+  chainId?: number;  // EVM chains only
+  payTo: string;     // agent wallet receiving payments
+  asset: string;     // USDC contract address or mint
+  testnet: boolean;
+}
+
+/**
+ * Confirmation state of a settlement transaction
+ */
+export interface PaymentStatus {
+  confirmed: boolean;
+  blockNumber?: bigint; // block, or slot on Solana
+}
+
+/**
+ * A chain payments can be made on
+ */
+export interface PaymentAdapter {
+  network: PaymentNetwork;
+
+  /**
+   * Extra requirement fields clients need to build a payment
+   * (e.g. the token's EIP-712 domain)
+   */
+  requirementExtra(): Record<string, unknown>;
+
+  /**
+   * Whether two addresses on this network are the same account
+   */
+  sameAddress(a: string, b: string): boolean;
+
+  /**
+   * Check locally, without the facilitator, that the payer signed a
+   * transfer of payload.value to payload.to
+   *
+   * @returns Why the authorization is invalid, or undefined when it is valid
+   */
+  verifyAuthorization(payload: PaymentPayload): Promise<string | undefined>;
+
+  /**
+   * Identifier that makes an authorization single-use, for the nonce ledger
+   */
+  authorizationId(payload: PaymentPayload): string;
+
+  /**
+   * Check that an authorization with a valid signature can still be
+   * settled, going only by what the payer's signature covers
+   *
+   * @returns Why it cannot be settled, or until when (unix seconds) it
+   *   can; the nonce ledger remembers it that long
+   */
+  validity(payload: PaymentPayload): Promise<{ error: string } | { validBefore: number }>;
+
+  /**
+   * USDC balance of an address, in base units
+   */
+  getBalance(address: string): Promise<bigint>;
+
+  getPaymentStatus(txHash: string): Promise<PaymentStatus>;
+}
@@ -0,0 +1,182 @@
+/**
+ * Payment Nonce Ledger
+ *
+ * Records every payment authorization accepted, so the same signed
+ * X-PAYMENT header cannot pay for more than one execution
+ * - Nonces are unique per network and payer, as in EIP-3009
+ * - Entries expire once the authorization's validBefore has passed;
+ *   after that the validity window check rejects it anyway
+ * - memory: kept for the life of the process
+ * - file: appended to a JSON Lines file, reloaded and compacted on startup
+ */
+
+import { appendFile, mkdir } from 'fs/promises';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { CONFIG } from './config.js';
+
+/**
+ * Accepted payment authorization
+ */
+export interface NonceEntry {
+  network: string;     // payment network; lines written before networks existed are Base
+  payer: string;
+  nonce: string;
+  validBefore: number; // unix seconds; the entry can be dropped after this
+  usedAt: number;
+}
+
+/**
+ * Line in the ledger file: a claim, or a release undoing one
+ */
+type LedgerLine = NonceEntry | { network: string; payer: string; nonce: string; released: true };
+
+export interface NonceLedger {
+  /**
+   * Record an authorization as used
+   *
+   * @returns false when this payer already used the nonce on the network
+   */
+  claim(network: string, payer: string, nonce: string, validBefore: number): Promise<boolean>;
+
+  /**
+   * Forget a claim whose payment was not accepted after all, so the
+   * payer can retry with the same authorization
+   */
+  release(network: string, payer: string, nonce: string): Promise<void>;
+}
+
+/**
+ * Hex payers and nonces compare case-insensitively; others, such as
+ * base58 Solana addresses, are case-sensitive
+ */
+function ledgerKey(network: string, payer: string, nonce: string): string {
+  const normalize = (value: string) => (value.startsWith('0x') ? value.toLowerCase() : value);
+  return `${network}:${normalize(payer)}:${normalize(nonce)}`;
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+export class MemoryNonceLedger implements NonceLedger {
+  protected entries = new Map<string, NonceEntry>();
+
+  async claim(network: string, payer: string, nonce: string, validBefore: number): Promise<boolean> {
+    return this.claimEntry({ network, payer, nonce, validBefore, usedAt: Date.now() });
+  }
+
+  async release(network: string, payer: string, nonce: string): Promise<void> {
+    this.entries.delete(ledgerKey(network, payer, nonce));
+  }
+
+  /**
+   * Check and record in one synchronous step, so concurrent requests
+   * carrying the same authorization cannot both pass
+   */
+  protected claimEntry(entry: NonceEntry): boolean {
+    this.prune();
+
+    const key = ledgerKey(entry.network, entry.payer, entry.nonce);
+    if (this.entries.has(key)) {
+      return false;
+    }
+    this.entries.set(key, entry);
+    return true;
+  }
+
+  /**
+   * Drop entries whose authorization has expired
+   */
+  protected prune(): void {
+    const now = nowSeconds();
+    for (const [key, entry] of this.entries) {
+      if (entry.validBefore < now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+export class FileNonceLedger extends MemoryNonceLedger {
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path - JSON Lines file, created on first write
+   */
+  constructor(private path: string) {
+    super();
+    this.load();
+  }
+
+  async claim(network: string, payer: string, nonce: string, validBefore: number): Promise<boolean> {
+    const entry: NonceEntry = { network, payer, nonce, validBefore, usedAt: Date.now() };
+    if (!this.claimEntry(entry)) {
+      return false;
+    }
+    await this.append(entry);
+    return true;
+  }
+
+  async release(network: string, payer: string, nonce: string): Promise<void> {
+    await super.release(network, payer, nonce);
+    await this.append({ network, payer, nonce, released: true });
+  }
+
+  /**
+   * Append a line, in order with earlier ones
+   */
+  private append(line: LedgerLine): Promise<void> {
+    this.writes = this.writes.catch(() => undefined).then(async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      await appendFile(this.path, JSON.stringify(line) + '\n');
+    });
+    return this.writes;
+  }
+
+  /**
+   * Replay the file, then rewrite it with only the entries still live
+   */
+  private load(): void {
+    if (!existsSync(this.path)) return;
+
+    let lines = 0;
+    let skipped = 0;
+    for (const text of readFileSync(this.path, 'utf8').split('\n')) {
+      if (!text.trim()) continue;
+      lines++;
+      try {
+        const line = JSON.parse(text) as LedgerLine;
+        line.network ??= 'base';
+        if ('released' in line) {
+          this.entries.delete(ledgerKey(line.network, line.payer, line.nonce));
+        } else {
+          this.entries.set(ledgerKey(line.network, line.payer, line.nonce), line);
+        }
+      } catch {
+        skipped++;
+      }
+    }
+
+    this.prune();
+    if (this.entries.size < lines) {
+      const live = [...this.entries.values()].map((entry) => JSON.stringify(entry) + '\n');
+      writeFileSync(this.path, live.join(''));
+    }
+
+    if (skipped > 0) {
+      console.warn(`⚠️ Skipped ${skipped} unreadable nonce ledger lines in ${this.path}`);
+    }
+  }
+}
+
+/**
+ * Create the ledger selected by configuration
+ */
+export function createNonceLedger(): NonceLedger {
+  return CONFIG.nonces.store === 'file'
+    ? new FileNonceLedger(CONFIG.nonces.file)
+    : new MemoryNonceLedger();
+}
+
+export const nonceLedger = createNonceLedger();
@@ -0,0 +1,90 @@
+/**
+ * Paid Execution
+ *
+ * One execution from payment to record, shared by the HTTP route, async
+ * jobs, MCP and the agent:
+ * - The payment is verified, or credit held, beforehand
+ * - Execute, bill the measured usage, settle, record
+ * - Output of an execution that could not be settled is withheld
+ * - What was held is given back if the code never ran
+ */
+
+import { sandboxExecutor, type ExecuteOptions, type ExecutionRequest, type ExecutionResult } from './sandbox.js';
+import { CONFIG } from './config.js';
+import { recordExecution, type ExecutionPayment } from './history.js';
+import { pricingEngine, type PricingTier } from './pricing.js';
+import { accountManager, type Account } from './accounts.js';
+import {
+  assertSettled,
+  releasePayment,
+  settleExecution,
+  withholdUnpaid,
+  type PaymentSource,
+} from './settlement.js';
+
+/**
+ * Finished execution with its settled payment
+ */
+export interface PaidExecution {
+  result: ExecutionResult;
+  payment: ExecutionPayment;
+}
+
+/**
+ * Hold the most an execution on a tier can cost against an account
+ *
+ * @param account - Account paying for the execution
+ * @param tier - Tier of the execution
+ * @returns The hold as a payment source, and the payment it authorizes
+ * @throws InsufficientCreditError when the account cannot cover the tier
+ */
+export function holdCredit(
+  account: Pick<Account, 'accountId' | 'owner'>,
+  tier: PricingTier
+): { source: PaymentSource; authorization: ExecutionPayment } {
+  const hold = accountManager.hold(account.accountId, pricingEngine.maxCharge(tier));
+  return {
+    source: { type: 'credit', hold },
+    authorization: {
+      amount: 0,
+      maxAmount: hold.amount,
+      payer: account.owner,
+      accountId: account.accountId,
+      network: CONFIG.network.name,
+      token: CONFIG.x402.paymentToken,
+    },
+  };
+}
+
+/**
+ * Run an execution and collect its payment
+ *
+ * @param request - Execution to run
+ * @param authorization - Payment as authorized, before the charge is known
+ * @param source - X-PAYMENT payload verified, or credit held, for it
+ * @param options - Executor options, e.g. waitForSlot or onLog
+ * @throws SettlementFailedError once recorded, when the payment could not
+ *   be settled
+ */
+export async function runPaidExecution(
+  request: ExecutionRequest,
+  authorization: ExecutionPayment,
+  source: PaymentSource,
+  options: ExecuteOptions = {}
+): Promise<PaidExecution> {
+  let result: ExecutionResult;
+  try {
+    result = await sandboxExecutor.execute(request, options);
+  } catch (error) {
+    await releasePayment(source);
+    throw error;
+  }
+
+  const billed = pricingEngine.bill(authorization, request.tier, result);
+  const payment = await settleExecution(billed, source, result.executionId);
+
+  await recordExecution(request, withholdUnpaid(result, payment), payment);
+  assertSettled(payment, result.executionId);
+
+  return { result, payment };
+}
@@ -0,0 +1,154 @@
+/**
+ * Execution Pool
+ *
+ * Bounds how many executions run at once, per tier, so a burst of paid
+ * requests queues instead of exhausting host memory
+ * - Fixed number of slots per tier
+ * - FIFO wait queue per tier, rejected with PoolSaturatedError when full
+ * - Counters for active, queued, completed and rejected executions
+ */
+
+import { CONFIG } from './config.js';
+
+export type PoolTier = keyof typeof CONFIG.pool.concurrency;
+
+/**
+ * Raised when a tier's slots and wait queue are both full
+ */
+export class PoolSaturatedError extends Error {
+  constructor(public tier: PoolTier, public retryAfterSeconds: number) {
+    super(`Execution capacity for the ${tier} tier is full; retry in ${retryAfterSeconds}s`);
+    this.name = 'PoolSaturatedError';
+  }
+}
+
+/**
+ * Point-in-time counters for one tier
+ */
+export interface TierPoolStats {
+  active: number;
+  queued: number;
+  concurrency: number;
+  queueLimit: number;
+  completed: number;
+  rejected: number;
+  averageWaitMs: number;
+}
+
+interface TierState {
+  active: number;
+  waiting: Array<() => void>;
+  completed: number;
+  rejected: number;
+  totalWaitMs: number;
+  totalRunMs: number;
+}
+
+/**
+ * Releases a slot; safe to call more than once
+ */
+export type ReleaseSlot = () => void;
+
+export class ExecutionPool {
+  private tiers = new Map<PoolTier, TierState>();
+
+  /**
+   * @param concurrency - Slots per tier
+   * @param queueLimit - Executions allowed to wait per tier
+   */
+  constructor(
+    private concurrency: Record<PoolTier, number>,
+    private queueLimit: number
+  ) {}
+
+  /**
+   * Whether an execution for this tier would be accepted right now
+   */
+  hasCapacity(tier: PoolTier): boolean {
+    const state = this.state(tier);
+    return state.active < this.concurrency[tier] || state.waiting.length < this.queueLimit;
+  }
+
+  /**
+   * Wait for a free slot
+   *
+   * @param tier - Execution tier
+   * @param unbounded - Queue even when the wait queue is full (for async jobs)
+   * @returns Function that frees the slot again
+   */
+  async acquire(tier: PoolTier, unbounded = false): Promise<ReleaseSlot> {
+    const state = this.state(tier);
+    const requestedAt = Date.now();
+
+    if (state.active < this.concurrency[tier]) {
+      state.active++;
+    } else {
+      if (!unbounded && state.waiting.length >= this.queueLimit) {
+        state.rejected++;
+        throw new PoolSaturatedError(tier, this.retryAfter(tier));
+      }
+      // Woken by a release, which hands its slot straight over
+      await new Promise<void>((resolve) => state.waiting.push(resolve));
+    }
+
+    const startedAt = Date.now();
+    state.totalWaitMs += startedAt - requestedAt;
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      state.completed++;
+      state.totalRunMs += Date.now() - startedAt;
+
+      const next = state.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        state.active--;
+      }
+    };
+  }
+
+  /**
+   * Counters for every tier
+   */
+  stats(): Record<PoolTier, TierPoolStats> {
+    const result = {} as Record<PoolTier, TierPoolStats>;
+    for (const tier of Object.keys(this.concurrency) as PoolTier[]) {
+      const state = this.state(tier);
+      const started = state.completed + state.active;
+      result[tier] = {
+        active: state.active,
+        queued: state.waiting.length,
+        concurrency: this.concurrency[tier],
+        queueLimit: this.queueLimit,
+        completed: state.completed,
+        rejected: state.rejected,
+        averageWaitMs: started > 0 ? Math.round(state.totalWaitMs / started) : 0,
+      };
+    }
+    return result;
+  }
+
+  /**
+   * Rough seconds until a slot frees, from the average run time so far
+   */
+  retryAfter(tier: PoolTier): number {
+    const state = this.state(tier);
+    const averageRunMs = state.completed > 0 ? state.totalRunMs / state.completed : 1000;
+    const rounds = Math.ceil((state.waiting.length + 1) / this.concurrency[tier]);
+    return Math.max(1, Math.ceil((averageRunMs * rounds) / 1000));
+  }
+
+  private state(tier: PoolTier): TierState {
+    let state = this.tiers.get(tier);
+    if (!state) {
+      state = { active: 0, waiting: [], completed: 0, rejected: 0, totalWaitMs: 0, totalRunMs: 0 };
+      this.tiers.set(tier, state);
+    }
+    return state;
+  }
+}
+
+export const executionPool = new ExecutionPool(CONFIG.pool.concurrency, CONFIG.pool.queueLimit);
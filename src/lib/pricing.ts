@@ -0,0 +1,146 @@
+/**
+ * Usage-Metered Pricing
+ *
+ * The payer authorizes the tier's maximum price up front; after the run
+ * the actual charge is computed from what the execution measurably used
+ * - Base fee per tier
+ * - CPU time, per CPU-second
+ * - Memory, per GB-second of peak heap held while running
+ * Amounts are computed in USDC base units (6 decimals) and rounded up,
+ * then capped at the authorized maximum. Failed and timed-out executions
+ * are charged according to the settlement policy instead.
+ *
+ * An x402 authorization moves its whole signed value when settled, so it
+ * is only settled for a non-zero charge, and the value beyond the charge
+ * is kept as credit on the payer's account.
+ */
+
+import { CONFIG } from './config.js';
+import type { ExecutionMetrics } from './runtimes/index.js';
+import type { ExecutionPayment } from './history.js';
+import type { ExecutionResult } from './sandbox.js';
+
+export type PricingTier = keyof typeof CONFIG.pricing;
+
+/**
+ * How much of the usage charge applies: nothing, the base fee, or all of it
+ */
+export type ChargePolicy = (typeof CONFIG.settlement)[keyof typeof CONFIG.settlement];
+
+/**
+ * How an execution ended, for choosing the charge policy
+ */
+export type ExecutionOutcomeKind = 'success' | 'failed' | 'timeout';
+
+const USDC_UNITS = 1_000_000;
+const BYTES_PER_GB = 1024 ** 3;
+
+/**
+ * How a charge was computed, in USDC
+ */
+export interface ChargeBreakdown {
+  baseFee: number;
+  cpu: number;
+  memory: number;
+  cpuSeconds: number;
+  memoryGBSeconds: number;
+  capped: boolean; // usage exceeded the maximum, which was charged instead
+  outcome: ExecutionOutcomeKind;
+  policy: ChargePolicy; // applied for this outcome; 'metered' on success
+}
+
+export interface Charge {
+  amount: number;    // USDC to settle
+  maxAmount: number; // USDC authorized
+  breakdown: ChargeBreakdown;
+}
+
+/**
+ * Convert USDC to base units
+ */
+export function toUnits(amount: number): number {
+  return Math.round(amount * USDC_UNITS);
+}
+
+/**
+ * Convert base units to USDC
+ */
+export function fromUnits(units: number): number {
+  return units / USDC_UNITS;
+}
+
+/**
+ * Classify a finished execution
+ */
+export function outcomeOf(result: Pick<ExecutionResult, 'success' | 'error'>): ExecutionOutcomeKind {
+  if (result.success) return 'success';
+  return result.error?.startsWith('Execution timeout') ? 'timeout' : 'failed';
+}
+
+export class PricingEngine {
+  /**
+   * Most an execution on this tier can cost; what the payer must authorize
+   *
+   * @param tier - Execution tier
+   */
+  maxCharge(tier: PricingTier): number {
+    return CONFIG.pricing[tier];
+  }
+
+  /**
+   * Price an execution from its measured usage
+   *
+   * @param tier - Execution tier
+   * @param metrics - Measured resource use
+   * @param maxAmount - Authorized maximum, defaults to the tier's
+   * @param outcome - How the execution ended
+   */
+  charge(
+    tier: PricingTier,
+    metrics: ExecutionMetrics,
+    maxAmount = this.maxCharge(tier),
+    outcome: ExecutionOutcomeKind = 'success'
+  ): Charge {
+    const rates = CONFIG.metering;
+    const policy: ChargePolicy = outcome === 'success' ? 'metered' : CONFIG.settlement[outcome];
+    const cpuSeconds = metrics.cpuTimeMs / 1000;
+    const memoryGBSeconds = (metrics.peakHeapBytes / BYTES_PER_GB) * (metrics.runTimeMs / 1000);
+
+    const metered = policy === 'metered';
+    const baseUnits = policy === 'none' ? 0 : toUnits(rates.baseFee[tier]);
+    const cpuUnits = metered ? Math.ceil(cpuSeconds * rates.cpuPerSecond * USDC_UNITS) : 0;
+    const memoryUnits = metered ? Math.ceil(memoryGBSeconds * rates.memoryPerGBSecond * USDC_UNITS) : 0;
+
+    const usageUnits = baseUnits + cpuUnits + memoryUnits;
+    const maxUnits = toUnits(maxAmount);
+
+    return {
+      amount: fromUnits(Math.min(usageUnits, maxUnits)),
+      maxAmount,
+      breakdown: {
+        baseFee: fromUnits(baseUnits),
+        cpu: fromUnits(cpuUnits),
+        memory: fromUnits(memoryUnits),
+        cpuSeconds: Math.round(cpuSeconds * 1000) / 1000,
+        memoryGBSeconds: Math.round(memoryGBSeconds * 1e6) / 1e6,
+        capped: usageUnits > maxUnits,
+        outcome,
+        policy,
+      },
+    };
+  }
+
+  /**
+   * Fill in the charge for a finished execution
+   *
+   * @param payment - Payment as authorized, before the run
+   * @param tier - Execution tier
+   * @param result - Finished execution, with its measured resource use
+   */
+  bill(payment: ExecutionPayment, tier: PricingTier, result: ExecutionResult): ExecutionPayment {
+    const { amount, breakdown } = this.charge(tier, result.metrics, payment.maxAmount, outcomeOf(result));
+    return { ...payment, amount, charge: breakdown };
+  }
+}
+
+export const pricingEngine = new PricingEngine();
@@ -0,0 +1,246 @@
+/**
+ * Signed Execution Proofs
+ *
+ * Every execution produces a canonical proof envelope committing to
+ * the code, input and output by hash, plus the limits and timestamps
+ * it ran under. The envelope digest is signed with the agent's EVM key
+ * (EIP-191 over the raw 32-byte digest), so anyone can check which code
+ * produced a result without trusting the HTTP response. Deterministic runs
+ * also carry a hash of only their reproducible fields, which a re-run with
+ * the same seed recomputes exactly.
+ */
+
+import { createHash } from 'crypto';
+import { verifyMessage, type Address, type Hex } from 'viem';
+import { generatePrivateKey, privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import { CONFIG } from './config.js';
+import type { Capability, ExecutionMetrics, RuntimeInput, VirtualEnvironment } from './runtimes/index.js';
+
+/**
+ * Canonical record of one execution
+ */
+export interface ProofEnvelope {
+  version: 1;
+  executionId: string;
+  executor: Address;          // address that signs the envelope
+  network: string;
+  language: string;
+  tier: string;
+  success: boolean;
+  codeHash: string;           // sha256 of the source as submitted
+  inputHash: string;          // sha256 of the canonical input
+  outputHash: string;         // sha256 of the canonical { output, result, error }
+  limits: {
+    timeout: number;
+    memoryLimitMB: number;
+    maxResultBytes: number;
+    capabilities: readonly Capability[];
+  };
+  deterministic?: VirtualEnvironment;
+  reproducibleHash?: string;  // deterministic runs: sha256 of the reproducible fields
+  metrics: ExecutionMetrics;  // resources used, as billed
+  startedAt: number;          // epoch ms
+  completedAt: number;        // epoch ms
+}
+
+/**
+ * Envelope with its digest and the executor's signature
+ */
+export interface SignedProof {
+  envelope: ProofEnvelope;
+  digest: Hex;                // sha256 of the canonical envelope
+  signature: Hex;             // EIP-191 signature of the raw digest
+}
+
+/**
+ * What the execution produced, as committed to by outputHash
+ */
+export interface ExecutionOutcome {
+  output: string;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Original artifacts a verifier may supply to check the envelope hashes
+ */
+export interface ProofArtifacts {
+  code?: string;
+  input?: RuntimeInput;
+  outcome?: ExecutionOutcome;
+}
+
+/**
+ * Outcome of verifying a signed proof
+ */
+export interface ProofVerification {
+  valid: boolean;
+  signer?: Address;
+  checks: {
+    digest: boolean;
+    signature: boolean;
+    executor: boolean;        // signed by this agent's key
+    reproducibleHash?: boolean; // deterministic runs only
+    codeHash?: boolean;
+    inputHash?: boolean;
+    outputHash?: boolean;
+  };
+  error?: string;
+}
+
+/**
+ * JSON with object keys sorted recursively, so equal values hash equally
+ *
+ * @param value - JSON-safe value
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalize(item === undefined ? null : item)).join(',')}]`;
+  }
+
+  const entries = Object.keys(value)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Hex-encoded SHA-256
+ */
+export function sha256(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+export function hashCode(code: string): string {
+  return sha256(code);
+}
+
+export function hashInput(input?: RuntimeInput): string {
+  return sha256(canonicalize({ data: input?.data, stdin: input?.stdin }));
+}
+
+export function hashOutcome(outcome: ExecutionOutcome): string {
+  return sha256(canonicalize(outcome));
+}
+
+/**
+ * Envelope fields that any re-run of a deterministic execution reproduces
+ *
+ * The execution ID, timestamps and measured metrics differ on every run,
+ * as do the executor and network when someone else re-runs it, so they
+ * are left out. Two runs of the same code, input, tier and seed have the
+ * same reproducibleHash.
+ */
+export type ReproducibleFields = Pick<
+  ProofEnvelope,
+  'version' | 'language' | 'tier' | 'success' | 'codeHash' | 'inputHash' | 'outputHash' | 'limits' | 'deterministic'
+>;
+
+export function hashReproducible(fields: ReproducibleFields): string {
+  const { version, language, tier, success, codeHash, inputHash, outputHash, limits, deterministic } = fields;
+  return sha256(canonicalize({ version, language, tier, success, codeHash, inputHash, outputHash, limits, deterministic }));
+}
+
+export class ProofSigner {
+  private account: PrivateKeyAccount;
+
+  constructor(privateKey?: Hex) {
+    if (!privateKey) {
+      console.warn('⚠️ AGENT_PRIVATE_KEY not set: signing proofs with an ephemeral key');
+    }
+    this.account = privateKeyToAccount(privateKey ?? generatePrivateKey());
+  }
+
+  /**
+   * Address that signs proofs, published via /api/verify
+   */
+  get address(): Address {
+    return this.account.address;
+  }
+
+  /**
+   * Digest and sign an envelope
+   *
+   * @param envelope - Envelope without the executor and reproducible hash,
+   * which are filled in
+   */
+  async sign(envelope: Omit<ProofEnvelope, 'executor' | 'reproducibleHash'>): Promise<SignedProof> {
+    const complete: ProofEnvelope = {
+      ...envelope,
+      reproducibleHash: envelope.deterministic ? hashReproducible(envelope) : undefined,
+      executor: this.account.address,
+    };
+    const digest = `0x${sha256(canonicalize(complete))}` as Hex;
+    const signature = await this.account.signMessage({ message: { raw: digest } });
+
+    return { envelope: complete, digest, signature };
+  }
+
+  /**
+   * Sign arbitrary data the same way as proofs, e.g. webhook bodies
+   *
+   * @param data - Exact bytes the recipient will hash
+   */
+  async signData(data: string): Promise<{ digest: Hex; signature: Hex }> {
+    const digest = `0x${sha256(data)}` as Hex;
+    const signature = await this.account.signMessage({ message: { raw: digest } });
+    return { digest, signature };
+  }
+
+  /**
+   * Check a signed proof: digest, signature, signer and, when the
+   * original artifacts are supplied, the hashes they commit to
+   *
+   * @param proof - Signed proof as returned by /api/execute
+   * @param artifacts - Optional original code, input and outcome
+   */
+  async verify(proof: SignedProof, artifacts: ProofArtifacts = {}): Promise<ProofVerification> {
+    const { envelope } = proof;
+    const checks: ProofVerification['checks'] = {
+      digest: `0x${sha256(canonicalize(envelope))}` === proof.digest,
+      signature: false,
+      executor: envelope.executor?.toLowerCase() === this.account.address.toLowerCase(),
+    };
+
+    try {
+      checks.signature = await verifyMessage({
+        address: envelope.executor,
+        message: { raw: proof.digest },
+        signature: proof.signature,
+      });
+    } catch (error) {
+      return {
+        valid: false,
+        checks,
+        error: error instanceof Error ? error.message : 'Invalid signature',
+      };
+    }
+
+    if (envelope.deterministic) {
+      checks.reproducibleHash = hashReproducible(envelope) === envelope.reproducibleHash;
+    }
+    if (artifacts.code !== undefined) {
+      checks.codeHash = hashCode(artifacts.code) === envelope.codeHash;
+    }
+    if (artifacts.input !== undefined) {
+      checks.inputHash = hashInput(artifacts.input) === envelope.inputHash;
+    }
+    if (artifacts.outcome !== undefined) {
+      checks.outputHash = hashOutcome(artifacts.outcome) === envelope.outputHash;
+    }
+
+    const valid = Object.values(checks).every((check) => check !== false);
+
+    return {
+      valid,
+      signer: checks.signature ? envelope.executor : undefined,
+      checks,
+    };
+  }
+}
+
+export const proofSigner = new ProofSigner(CONFIG.proofs.signerPrivateKey as Hex | undefined);
@@ -0,0 +1,47 @@
+/**
+ * Sandbox Capabilities
+ * 
+ * Built-ins a tier may unlock. Runtimes build the execution
+ * environment from this list; anything not granted is removed
+ * or replaced with a deterministic stand-in.
+ */
+
+export type Capability = 'console' | 'Math' | 'Date' | 'JSON';
+
+/**
+ * What each capability grants, and what code gets without it
+ */
+export const CAPABILITIES: Record<Capability, { granted: string; withheld: string }> = {
+  console: {
+    granted: 'Console output (log, info, debug, warn, error, table)',
+    withheld: 'Console calls are accepted but discarded',
+  },
+  Math: {
+    granted: 'Math.random / random module backed by real entropy',
+    withheld: 'Math.random / random module seeded (fixed seed, or the deterministic seed)',
+  },
+  Date: {
+    granted: 'Real wall clock',
+    withheld: 'Clock frozen at the Unix epoch (or the deterministic start time)',
+  },
+  JSON: {
+    granted: 'JSON global / json module',
+    withheld: 'JSON global removed / json module import blocked',
+  },
+};
+
+/**
+ * Seed and virtual clock used wherever randomness or time are withheld
+ */
+export interface VirtualEnvironment {
+  seed: number;       // seeds Math.random / random (and Python's hash seed)
+  startTime: number;  // epoch milliseconds the frozen clock reports
+}
+
+/**
+ * Used when Math / Date are withheld by the tier and no seed was requested
+ */
+export const DEFAULT_VIRTUAL_ENVIRONMENT: VirtualEnvironment = {
+  seed: 0,
+  startTime: 0,
+};
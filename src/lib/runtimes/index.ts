@@ -0,0 +1,38 @@
+/**
+ * Built-in Language Runtimes
+ * 
+ * Importing this module registers every bundled runtime.
+ * To add a language, implement LanguageRuntime and register it here.
+ */
+
+import { runtimeRegistry } from './registry.js';
+import { javascriptRuntime } from './javascript.js';
+import { typescriptRuntime } from './typescript.js';
+import { pythonRuntime } from './python.js';
+
+runtimeRegistry.register(javascriptRuntime);
+runtimeRegistry.register(typescriptRuntime);
+runtimeRegistry.register(pythonRuntime);
+
+export { runtimeRegistry, type RuntimeDescriptor } from './registry.js';
+export { warmIsolates } from './javascript.js';
+export {
+  CAPABILITIES,
+  DEFAULT_VIRTUAL_ENVIRONMENT,
+  type Capability,
+  type VirtualEnvironment,
+} from './capabilities.js';
+export { CompilationError, RuntimeFailure, joinLogs, parseResult, elapsedMs } from './types.js';
+export type {
+  LanguageRuntime,
+  RuntimeLimits,
+  RuntimeInput,
+  RuntimeRunRequest,
+  RuntimeRunResult,
+  CompileDiagnostic,
+  CompileResult,
+  LogEntry,
+  LogListener,
+  RuntimeMetrics,
+  ExecutionMetrics,
+} from './types.js';
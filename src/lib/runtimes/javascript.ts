@@ -0,0 +1,304 @@
+/**
+ * JavaScript Runtime
+ * 
+ * Executes JavaScript in a fresh isolated-vm V8 isolate
+ * - Separate heap per execution, isolates never reused
+ * - Optional pre-warmed isolates to cut cold-start latency
+ * - CPU time, heap and phase timings measured even for failed runs
+ * - Memory limit enforced by the isolate
+ * - Timeout enforced by script.run
+ * - Result taken from result(), `export default` or the last expression,
+ *   awaited when it is a promise
+ * - Globals shaped by the tier's capabilities
+ */
+
+import ivm from 'isolated-vm';
+import ts from 'typescript';
+import { SANDBOX_PRELUDE, INPUT_PRELUDE, CAPABILITY_PRELUDE } from './prelude.js';
+import {
+  RuntimeFailure,
+  elapsedMs,
+  joinLogs,
+  parseResult,
+  type LanguageRuntime,
+  type LogEntry,
+  type RuntimeMetrics,
+  type RuntimeRunRequest,
+  type RuntimeRunResult,
+} from './types.js';
+
+/**
+ * Whether the code is a module: it has top-level import/export statements
+ * (not dynamic import()), as found by parsing rather than by text, so the
+ * words inside strings and comments do not count
+ */
+function isModule(code: string, filename: string): boolean {
+  const source = ts.createSourceFile(filename, code, ts.ScriptTarget.Latest, false, ts.ScriptKind.JS);
+  return ts.isExternalModule(source);
+}
+
+/**
+ * Fresh isolates with an empty context, created ahead of time
+ *
+ * Each is handed out once and disposed after its execution, so nothing
+ * leaks between runs; only creation cost moves off the request path.
+ */
+class WarmIsolatePool {
+  private ready: Array<{ isolate: ivm.Isolate; context: ivm.Context }> = [];
+  private memoryLimitMB = 0;
+  private size = 0;
+
+  /**
+   * Keep `size` isolates with this memory limit ready
+   *
+   * @param memoryLimitMB - Limit of the tier to warm for
+   * @param size - Isolates to keep ready
+   */
+  configure(memoryLimitMB: number, size: number): void {
+    this.memoryLimitMB = memoryLimitMB;
+    this.size = size;
+    this.refill();
+  }
+
+  /**
+   * Take a warm isolate for this limit, or a new one without a context
+   */
+  take(memoryLimitMB: number): { isolate: ivm.Isolate; context?: ivm.Context } {
+    if (memoryLimitMB === this.memoryLimitMB) {
+      const warm = this.ready.shift();
+      if (warm) {
+        setImmediate(() => this.refill());
+        return warm;
+      }
+    }
+    return { isolate: new ivm.Isolate({ memoryLimit: memoryLimitMB }) };
+  }
+
+  /**
+   * Isolates currently ready
+   */
+  get available(): number {
+    return this.ready.length;
+  }
+
+  private refill(): void {
+    while (this.ready.length < this.size) {
+      const isolate = new ivm.Isolate({ memoryLimit: this.memoryLimitMB });
+      this.ready.push({ isolate, context: isolate.createContextSync() });
+    }
+  }
+}
+
+export const warmIsolates = new WarmIsolatePool();
+
+const CPU_SAMPLE_INTERVAL_MS = 10;
+
+type Phase = 'setupTimeMs' | 'compileTimeMs' | 'runTimeMs';
+
+/**
+ * Phase timings and resource use of one isolate
+ *
+ * Heap statistics cannot be read while code holds the isolate, and an
+ * isolate that hits its memory limit is disposed before we can ask. So CPU
+ * time is sampled on an interval, and the heap is read once at the end as
+ * the committed heap size, which tracks the run's high-water mark; a run
+ * killed by the memory limit reports the limit itself.
+ */
+class IsolateMeter {
+  private phases: Record<Phase, number> = { setupTimeMs: 0, compileTimeMs: 0, runTimeMs: 0 };
+  private current: Phase = 'setupTimeMs';
+  private phaseStart = performance.now();
+  private cpuNs = 0n;
+  private sampler: NodeJS.Timeout;
+
+  constructor(private isolate: ivm.Isolate, private memoryLimitMB: number) {
+    this.sampler = setInterval(() => this.sampleCpu(), CPU_SAMPLE_INTERVAL_MS);
+  }
+
+  /**
+   * Close the current phase and start timing the next one
+   */
+  enter(phase: Phase): void {
+    const now = performance.now();
+    this.phases[this.current] += elapsedMs(this.phaseStart, now);
+    this.current = phase;
+    this.phaseStart = now;
+  }
+
+  /**
+   * Stop measuring; call before the isolate is disposed
+   */
+  finish(): RuntimeMetrics {
+    this.enter(this.current);
+    clearInterval(this.sampler);
+    this.sampleCpu();
+
+    let peakHeapBytes = this.memoryLimitMB * 1024 * 1024;
+    let externalMemoryBytes = 0;
+    if (!this.isolate.isDisposed) {
+      const heap = this.isolate.getHeapStatisticsSync();
+      peakHeapBytes = heap.total_heap_size;
+      externalMemoryBytes = heap.externally_allocated_size;
+    }
+
+    return {
+      ...this.phases,
+      cpuTimeMs: Math.round(Number(this.cpuNs) / 10_000) / 100,
+      peakHeapBytes,
+      externalMemoryBytes,
+    };
+  }
+
+  private sampleCpu(): void {
+    if (!this.isolate.isDisposed) {
+      this.cpuNs = this.isolate.cpuTime;
+    }
+  }
+}
+
+/**
+ * Wait for a promise settled inside the isolate, giving up after `ms`
+ *
+ * The isolate's timeout only covers synchronous execution, so a promise
+ * that never settles is bounded here; the rejection it gets once the
+ * isolate is disposed is ignored.
+ *
+ * @param promise - Pending call into the isolate
+ * @param ms - Time left for it to settle
+ */
+function settleWithin<T>(promise: Promise<T>, ms: number): Promise<T> {
+  promise.catch(() => {});
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Script execution timed out.')), Math.max(ms, 0));
+  });
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Run JavaScript source in isolated-vm
+ * 
+ * Exported so runtimes that compile to JavaScript can reuse it.
+ * Error positions refer to lines of `code`, reported under `filename`.
+ * 
+ * @param request - Source and limits for this execution
+ * @param filename - Script name used in stack traces
+ */
+export async function runInIsolate(
+  {
+    code,
+    input,
+    capabilities,
+    environment,
+    deterministic,
+    timeout,
+    memoryLimitMB,
+    maxResultBytes,
+    onLog,
+  }: RuntimeRunRequest,
+  filename = 'main.js'
+): Promise<RuntimeRunResult> {
+  // Take a pre-warmed isolate when one matches, otherwise create one
+  const { isolate, context: warmContext } = warmIsolates.take(memoryLimitMB);
+  const meter = new IsolateMeter(isolate, memoryLimitMB);
+
+  // Capture console output line by line, discarded unless the tier grants console
+  const logs: LogEntry[] = [];
+  let runStart = Date.now();
+  const consoleGranted = capabilities.includes('console');
+  const emit = new ivm.Callback(
+    (stream: LogEntry['stream'], level: LogEntry['level'], message: string) => {
+      if (!consoleGranted) return;
+      const timestampMs = deterministic ? 0 : Date.now() - runStart;
+      const entry: LogEntry = { stream, level, message, timestampMs };
+      logs.push(entry);
+      onLog?.(entry);
+    }
+  );
+
+  try {
+    // Create execution context
+    const context = warmContext ?? await isolate.createContext();
+
+    // Install console and result(); the prelude removes __emit from the global again
+    await context.global.set('__emit', emit);
+    const serializeResult: ivm.Reference = await context.eval(SANDBOX_PRELUDE, { reference: true });
+
+    // Expose input as frozen globals, copied in as JSON text
+    const inputJson = input?.data === undefined ? undefined : JSON.stringify(input.data);
+    await context.evalClosure(INPUT_PRELUDE, [inputJson, input?.stdin], {
+      arguments: { copy: true },
+    });
+
+    // Remove or stub built-ins the tier does not grant
+    const preludeArgs = [[...capabilities], environment.seed, environment.startTime];
+    await context.evalClosure(CAPABILITY_PRELUDE, preludeArgs, {
+      arguments: { copy: true },
+    });
+
+    // Compile and execute with timeout, keeping a handle on the completion value
+    let completion: ivm.Reference | undefined;
+    meter.enter('compileTimeMs');
+    if (isModule(code, filename)) {
+      const module = await isolate.compileModule(code, { filename });
+      await module.instantiate(context, (specifier) => {
+        throw new Error(`Cannot import "${specifier}": imports are not available in the sandbox`);
+      });
+      meter.enter('runTimeMs');
+      runStart = Date.now();
+      await module.evaluate({ timeout });
+      completion = await module.namespace.get('default', { reference: true });
+    } else {
+      const script = await isolate.compileScript(code, { filename });
+      meter.enter('runTimeMs');
+      runStart = Date.now();
+      completion = await script.run(context, { timeout, reference: true });
+    }
+
+    // Settle a promise completion and serialize the result to JSON inside the
+    // isolate, within what is left of the timeout
+    const resultJson = await settleWithin(
+      serializeResult.apply(undefined, [completion?.derefInto()], {
+        result: { promise: true, copy: true },
+        timeout,
+      }) as Promise<string | undefined>,
+      timeout - (Date.now() - runStart)
+    );
+    const result = parseResult(resultJson, maxResultBytes);
+
+    // Measure, then clean up
+    const metrics = meter.finish();
+    isolate.dispose();
+
+    return {
+      output: joinLogs(logs),
+      logs,
+      result,
+      metrics,
+    };
+
+  } catch (error: any) {
+    // Measure what the failed run used, then clean up
+    const metrics = meter.finish();
+    if (!isolate.isDisposed) {
+      isolate.dispose();
+    }
+
+    // Provide helpful error messages
+    if (error.message?.includes('timeout') || error.message?.includes('timed out')) {
+      throw new RuntimeFailure(`Execution timeout: code ran longer than ${timeout}ms`, logs, undefined, metrics);
+    }
+    if (error.message?.includes('memory')) {
+      throw new RuntimeFailure(`Memory limit exceeded: maximum ${memoryLimitMB}MB`, logs, undefined, metrics);
+    }
+
+    throw new RuntimeFailure(error.message, logs, error, metrics);
+  }
+}
+
+export const javascriptRuntime: LanguageRuntime = {
+  language: 'javascript',
+  name: 'JavaScript',
+  description: 'JavaScript (ES2022) in an isolated V8 isolate',
+  run: (request) => runInIsolate(request),
+};
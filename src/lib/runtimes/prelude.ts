@@ -0,0 +1,286 @@
+/**
+ * Sandbox Prelude
+ *
+ * JavaScript evaluated inside the isolate before user code:
+ * - Installs a `console` with log/info/debug/warn/error/table that formats
+ *   values the way Node's util.inspect does, forwarding each line to the
+ *   host through the `__emit(stream, level, message)` callback
+ * - Installs `result(value)` for returning data explicitly
+ *
+ * Evaluates to the result serializer, which the host calls after the run
+ * with the completion value (or default export) to get the result as JSON;
+ * it resolves once a promise completion has settled.
+ */
+
+export const SANDBOX_PRELUDE = `
+(() => {
+  const emit = globalThis.__emit;
+  delete globalThis.__emit;
+
+  // Captured up front so user code cannot tamper with serialization
+  const stringify = JSON.stringify;
+
+  const MAX_DEPTH = 2;
+
+  const quote = (s) => "'" + s.replace(/\\\\/g, '\\\\\\\\').replace(/'/g, "\\\\'").replace(/\\n/g, '\\\\n') + "'";
+  const isIdentifier = (key) => /^[A-Za-z_$][\\w$]*$/.test(key);
+  const formatKey = (key) => typeof key === 'symbol'
+    ? '[' + key.toString() + ']'
+    : isIdentifier(key) ? key : quote(key);
+
+  const constructorName = (value) => {
+    const proto = Object.getPrototypeOf(value);
+    if (proto === null) return '[Object: null prototype]';
+    const ctor = proto.constructor;
+    return ctor && typeof ctor.name === 'string' ? ctor.name : '';
+  };
+
+  const wrap = (prefix, open, items, close) => {
+    const head = prefix ? prefix + ' ' : '';
+    if (items.length === 0) return head + open + close;
+    const single = head + open + ' ' + items.join(', ') + ' ' + close;
+    if (single.length <= 72 && !single.includes('\\n')) return single;
+    return head + open + '\\n' + items.map((item) => '  ' + item.replace(/\\n/g, '\\n  ')).join(',\\n') + '\\n' + close;
+  };
+
+  const inspect = (value, depth, seen) => {
+    switch (typeof value) {
+      case 'string': return depth === 0 ? value : quote(value);
+      case 'number': return Object.is(value, -0) ? '-0' : String(value);
+      case 'bigint': return value + 'n';
+      case 'boolean':
+      case 'undefined': return String(value);
+      case 'symbol': return value.toString();
+      case 'function': {
+        const kind = /^class\\s/.test(Function.prototype.toString.call(value)) ? 'class' : 'Function';
+        return value.name ? '[' + kind + ': ' + value.name + ']' : '[' + kind + ' (anonymous)]';
+      }
+    }
+    if (value === null) return 'null';
+    if (seen.includes(value)) return '[Circular]';
+
+    if (value instanceof Error) {
+      return value.stack || value.name + ': ' + value.message;
+    }
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+    }
+    if (value instanceof RegExp) return value.toString();
+
+    const name = constructorName(value);
+    if (depth > MAX_DEPTH) {
+      return Array.isArray(value) ? '[Array]' : '[' + (name || 'Object') + ']';
+    }
+
+    const nested = seen.concat([value]);
+    const child = (v) => inspect(v, depth + 1, nested);
+
+    if (Array.isArray(value)) {
+      const items = value.slice(0, 100).map(child);
+      if (value.length > 100) items.push('... ' + (value.length - 100) + ' more items');
+      return wrap(name === 'Array' ? '' : name + '(' + value.length + ')', '[', items, ']');
+    }
+    if (value instanceof Map) {
+      const items = [...value].map(([k, v]) => child(k) + ' => ' + child(v));
+      return wrap('Map(' + value.size + ')', '{', items, '}');
+    }
+    if (value instanceof Set) {
+      return wrap('Set(' + value.size + ')', '{', [...value].map(child), '}');
+    }
+    if (value instanceof Promise) return 'Promise { <unknown> }';
+
+    const keys = [...Object.keys(value), ...Object.getOwnPropertySymbols(value)];
+    const items = keys.map((key) => formatKey(key) + ': ' + child(value[key]));
+    return wrap(name === 'Object' ? '' : name, '{', items, '}');
+  };
+
+  const format = (args) => {
+    let rest = args;
+    let head = '';
+    if (typeof args[0] === 'string' && /%[sdifjoOc%]/.test(args[0])) {
+      let i = 1;
+      head = args[0].replace(/%([sdifjoOc%])/g, (match, spec) => {
+        if (spec === '%') return '%';
+        if (i >= args.length) return match;
+        const arg = args[i++];
+        switch (spec) {
+          case 's': return typeof arg === 'string' ? arg : inspect(arg, 1, []);
+          case 'd':
+          case 'i': return typeof arg === 'bigint' ? arg + 'n' : String(spec === 'i' ? parseInt(arg) : Number(arg));
+          case 'f': return String(parseFloat(arg));
+          case 'j': try { return JSON.stringify(arg); } catch { return '[Circular]'; }
+          case 'c': return '';
+          default: return inspect(arg, 1, []);
+        }
+      });
+      rest = args.slice(i);
+      return [head, ...rest.map((a) => inspect(a, 0, []))].join(' ');
+    }
+    return rest.map((a) => inspect(a, 0, [])).join(' ');
+  };
+
+  const table = (data) => {
+    if (data === null || typeof data !== 'object') return format([data]);
+    const rows = Object.keys(data);
+    const columns = [];
+    let hasValues = false;
+    for (const row of rows) {
+      const entry = data[row];
+      if (entry !== null && typeof entry === 'object') {
+        for (const key of Object.keys(entry)) if (!columns.includes(key)) columns.push(key);
+      } else {
+        hasValues = true;
+      }
+    }
+    const header = ['(index)', ...columns, ...(hasValues ? ['Values'] : [])];
+    const body = rows.map((row) => {
+      const entry = data[row];
+      const isObject = entry !== null && typeof entry === 'object';
+      const cells = columns.map((key) => isObject && key in entry ? inspect(entry[key], 1, []) : '');
+      if (hasValues) cells.push(isObject ? '' : inspect(entry, 1, []));
+      return [row, ...cells];
+    });
+    const widths = header.map((h, c) => Math.max(h.length, ...body.map((r) => r[c].length)) + 2);
+    const line = (l, m, r) => l + widths.map((w) => '─'.repeat(w)).join(m) + r;
+    const cellRow = (cells) => '│' + cells.map((cell, c) => {
+      const pad = widths[c] - cell.length;
+      const left = Math.floor(pad / 2);
+      return ' '.repeat(left) + cell + ' '.repeat(pad - left);
+    }).join('│') + '│';
+    return [
+      line('┌', '┬', '┐'),
+      cellRow(header),
+      line('├', '┼', '┤'),
+      ...body.map(cellRow),
+      line('└', '┴', '┘'),
+    ].join('\\n');
+  };
+
+  const writer = (stream, level) => (...args) => {
+    emit(stream, level, format(args));
+  };
+
+  const sandboxConsole = {
+    log: writer('stdout', 'log'),
+    info: writer('stdout', 'info'),
+    debug: writer('stdout', 'debug'),
+    warn: writer('stderr', 'warn'),
+    error: writer('stderr', 'error'),
+    table: (data) => emit('stdout', 'table', table(data)),
+  };
+
+  Object.defineProperty(globalThis, 'console', {
+    value: Object.freeze(sandboxConsole),
+    writable: false,
+    configurable: false,
+    enumerable: false,
+  });
+
+  let explicit = false;
+  let explicitValue;
+
+  Object.defineProperty(globalThis, 'result', {
+    value: (value) => {
+      explicit = true;
+      explicitValue = value;
+    },
+    writable: false,
+    configurable: false,
+    enumerable: false,
+  });
+
+  // A promise completion (an async call, Promise.resolve) is settled first,
+  // so result() calls made before it settles count; result() wins over the
+  // completion value / default export
+  return async (completion) => {
+    const settled = await completion;
+    const value = explicit ? explicitValue : settled;
+    if (value === undefined) return undefined;
+    try {
+      return stringify(value, (key, v) => typeof v === 'bigint' ? v.toString() : v);
+    } catch (error) {
+      throw new TypeError('Result is not JSON-serializable: ' + error.message);
+    }
+  };
+})();
+`;
+
+/**
+ * Input Prelude
+ *
+ * Closure evaluated with the input JSON ($0) and stdin text ($1).
+ * Exposes them as read-only globals INPUT (deep-frozen) and STDIN.
+ */
+export const INPUT_PRELUDE = `
+  const freeze = (value) => {
+    if (value !== null && typeof value === 'object' && !Object.isFrozen(value)) {
+      Object.freeze(value);
+      Object.values(value).forEach(freeze);
+    }
+    return value;
+  };
+
+  const define = (name, value) => Object.defineProperty(globalThis, name, {
+    value,
+    writable: false,
+    configurable: false,
+    enumerable: false,
+  });
+
+  define('INPUT', $0 === undefined ? undefined : freeze(JSON.parse($0)));
+  define('STDIN', $1 === undefined ? '' : $1);
+`;
+
+/**
+ * Capability Prelude
+ *
+ * Closure evaluated with the granted capabilities ($0), the seed for
+ * withheld randomness ($1) and the frozen clock time ($2). Runs last, after the other preludes
+ * have captured what they need. Console is gated on the host side.
+ */
+export const CAPABILITY_PRELUDE = `
+  const granted = new Set($0);
+
+  if (!granted.has('Math')) {
+    // mulberry32: small, fast, deterministic for a given seed
+    let state = $1 >>> 0;
+    Object.defineProperty(Math, 'random', {
+      value: () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+      },
+      writable: false,
+      configurable: false,
+    });
+  }
+
+  if (!granted.has('Date')) {
+    const RealDate = Date;
+    const frozenNow = $2;
+    const FrozenDate = function Date(...args) {
+      if (!new.target) return new RealDate(frozenNow).toString();
+      return args.length === 0 ? new RealDate(frozenNow) : new RealDate(...args);
+    };
+    Object.setPrototypeOf(FrozenDate, RealDate);
+    FrozenDate.prototype = RealDate.prototype;
+    // Otherwise new Date().constructor is the real, running clock
+    Object.defineProperty(RealDate.prototype, 'constructor', {
+      value: FrozenDate,
+      writable: false,
+      configurable: false,
+    });
+    Object.defineProperty(FrozenDate, 'now', { value: () => frozenNow });
+    Object.defineProperty(globalThis, 'Date', {
+      value: FrozenDate,
+      writable: false,
+      configurable: false,
+    });
+  }
+
+  if (!granted.has('JSON')) {
+    delete globalThis.JSON;
+  }
+`;
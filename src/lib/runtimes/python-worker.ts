@@ -0,0 +1,374 @@
+/**
+ * Python Sandbox Worker
+ *
+ * Runs untrusted Python code inside a Pyodide (CPython on WASM) interpreter
+ * - Spawned per execution as a child process under Node's permission model:
+ *   no environment, no child processes, reads limited to Pyodide's own files
+ * - WASM memory capped at the tier limit; allocations past it raise MemoryError
+ * - Outbound sockets refused, Node globals removed before user code runs
+ * - The js / pyodide_js bridges and pyodide modules cannot be imported
+ * - Timeout enforced by the parent killing the process
+ * - stdout/stderr captured line by line in emission order
+ * - Result taken from result() or the last expression, JSON-encoded
+ * - Input exposed as the INPUT global and sys.stdin
+ * - random/time/json shaped by the tier's capabilities
+ *
+ * Loaded from source with `node -e` rather than from a file, so it must only
+ * import Node built-ins; Pyodide itself is imported from the URL it is given.
+ */
+
+import { constants as fsConstants } from 'fs';
+import net from 'net';
+import { getHeapStatistics } from 'v8';
+import type { PyodideInterface } from 'pyodide';
+import type { LogEntry } from './types.js';
+import type { Capability, VirtualEnvironment } from './capabilities.js';
+
+const WASM_PAGE_BYTES = 64 * 1024;
+
+interface WasmMemory {
+  readonly buffer: ArrayBuffer;
+  grow(delta: number): number;
+}
+
+/**
+ * Node globals removed before user code runs, so nothing handed to Python
+ * can lead back to the host
+ */
+const NODE_GLOBALS = ['process', 'require', 'module', 'exports', 'global', 'Buffer', 'fetch', 'WebSocket', 'navigator'];
+
+/**
+ * Installs the result() builtin and returns the serializer; run in its
+ * own namespace so the helpers stay out of the user's globals
+ */
+const RESULT_PRELUDE = `
+import builtins
+import json
+
+class _State:
+    called = False
+    value = None
+
+def result(value):
+    _State.called = True
+    _State.value = value
+
+builtins.result = result
+
+def serialize(completion):
+    value = _State.value if _State.called else completion
+    if value is None:
+        return None
+    try:
+        return json.dumps(value)
+    except (TypeError, ValueError) as error:
+        raise TypeError(f"Result is not JSON-serializable: {error}") from None
+`;
+
+/**
+ * Applies withheld capabilities; run after the helpers have imported json
+ */
+const CAPABILITY_PRELUDE = `
+import sys
+
+def apply_capabilities(granted, seed, start_ms):
+    if "Math" not in granted:
+        import os
+        import posix
+        import random
+
+        random.seed(seed)
+
+        # os.urandom feeds secrets, uuid4 and random.SystemRandom
+        entropy = random.Random(seed)
+        os.urandom = posix.urandom = random._urandom = entropy.randbytes
+
+    if "Date" not in granted:
+        import datetime
+        import time
+
+        start = start_ms / 1000
+        frozen = datetime.datetime.fromtimestamp(start, datetime.timezone.utc)
+
+        class FrozenDatetime(datetime.datetime):
+            @classmethod
+            def now(cls, tz=None):
+                return frozen.astimezone(tz) if tz else frozen.replace(tzinfo=None)
+
+            @classmethod
+            def utcnow(cls):
+                return frozen.replace(tzinfo=None)
+
+            @classmethod
+            def today(cls):
+                return cls.now()
+
+        class FrozenDate(datetime.date):
+            @classmethod
+            def today(cls):
+                return frozen.date()
+
+        datetime.datetime = FrozenDatetime
+        datetime.date = FrozenDate
+        time.time = lambda: start
+        time.time_ns = lambda: start_ms * 1_000_000
+
+        # Calls without a time argument read the clock
+        gmtime, localtime, strftime = time.gmtime, time.localtime, time.strftime
+        time.gmtime = lambda secs=None: gmtime(start if secs is None else secs)
+        time.localtime = lambda secs=None: localtime(start if secs is None else secs)
+        time.strftime = lambda format, t=None: strftime(format, time.localtime() if t is None else t)
+        time.ctime = lambda secs=None: time.asctime(time.localtime(secs))
+        asctime = time.asctime
+        time.asctime = lambda t=None: asctime(time.localtime() if t is None else t)
+
+        # Interval clocks stand still with the wall clock
+        for name in ("monotonic", "perf_counter", "process_time", "thread_time"):
+            setattr(time, name, lambda: 0.0)
+            setattr(time, name + "_ns", lambda: 0)
+
+    if "JSON" not in granted:
+        sys.modules["json"] = None
+`;
+
+/**
+ * Cuts Python off from JavaScript: the js / pyodide_js modules expose the
+ * worker's globals and Pyodide's API, pyodide.code.run_js and pyodide.ffi
+ * reach them too. Modules already loaded keep working for the interpreter.
+ */
+const ISOLATION_PRELUDE = `
+import os
+import posix
+import sys
+
+BRIDGES = ("js", "pyodide_js", "pyodide", "_pyodide", "_pyodide_core")
+
+class BridgeBlocker:
+    @staticmethod
+    def find_spec(name, path=None, target=None):
+        if name.split(".")[0] in BRIDGES:
+            raise ModuleNotFoundError(f"No module named '{name}'", name=name)
+        return None
+
+def no_processes(*args, **kwargs):
+    raise PermissionError("Process creation is not available in the sandbox")
+
+def block_bridges():
+    sys.meta_path.insert(0, BridgeBlocker)
+    for name in [name for name in sys.modules if name.split(".")[0] in BRIDGES]:
+        del sys.modules[name]
+    os.system = posix.system = no_processes
+`;
+
+/**
+ * Data passed to the worker by the executor
+ */
+export interface PythonWorkerData {
+  pyodideUrl: string;   // Pyodide's ES module entry
+  indexURL: string;     // directory of its WASM and stdlib
+  code: string;
+  inputJson?: string;
+  stdin?: string;
+  capabilities: Capability[];
+  environment: VirtualEnvironment;
+  deterministic: boolean;
+  memoryLimitMB: number;
+}
+
+/**
+ * Message posted back to the executor
+ */
+export type PythonWorkerMessage =
+  | { log: LogEntry }
+  | { started: true; memory: PythonWorkerMemory }  // setup finished, user code starts now
+  | { ok: true; logs: LogEntry[]; resultJson?: string; memory: PythonWorkerMemory; cpuTimeMs: number }
+  | { ok: false; error: string; logs: LogEntry[]; memory?: PythonWorkerMemory; cpuTimeMs?: number };
+
+/**
+ * Refuse WASM memory growth past the limit; Pyodide's allocator then fails
+ * and Python raises MemoryError, so linear memory never exceeds the limit
+ *
+ * @param limitBytes - Largest linear memory allowed
+ */
+function capWasmMemory(limitBytes: number): void {
+  // lib.dom is not loaded, so WebAssembly is untyped here
+  const { prototype } = (globalThis as any).WebAssembly.Memory as { prototype: WasmMemory };
+  const grow = prototype.grow;
+  prototype.grow = function (this: WasmMemory, delta: number) {
+    if (this.buffer.byteLength + delta * WASM_PAGE_BYTES > limitBytes) {
+      throw new RangeError(`WASM memory limit of ${limitBytes} bytes reached`);
+    }
+    return grow.call(this, delta);
+  };
+}
+
+/**
+ * Prepare the process before Pyodide loads
+ * - process.binding is denied under the permission model; Pyodide only
+ *   reads the fs open flags through it
+ * - Python sockets are emulated over WebSockets, so refusing to open
+ *   sockets cuts off the network
+ */
+function lockDownProcess(): void {
+  (process as any).binding = (name: string) => {
+    if (name === 'constants') return { fs: fsConstants };
+    throw new Error(`process.binding('${name}') is not available in the sandbox`);
+  };
+
+  const refuse = () => {
+    throw new Error('Network access is not available in the sandbox');
+  };
+  net.Socket.prototype.connect = refuse;
+  net.Server.prototype.listen = refuse;
+}
+
+/**
+ * Size of Pyodide's WASM linear memory
+ *
+ * Pyodide has no public API for it; the Emscripten module's HEAP8 view
+ * spans the whole linear memory and is replaced whenever it grows, so its
+ * length is the current size. This is the only use of Pyodide internals.
+ */
+function wasmMemoryBytes(pyodide: PyodideInterface): number {
+  return (pyodide as unknown as { _module: { HEAP8: Int8Array } })._module.HEAP8.length;
+}
+
+/**
+ * Memory of the worker when it reported back
+ */
+export interface PythonWorkerMemory {
+  wasmBytes: number; // WASM linear memory; it only grows, so this is the peak
+  heapBytes: number; // the worker's own V8 heap (Pyodide's JS side)
+}
+
+async function run(data: PythonWorkerData): Promise<void> {
+  const {
+    pyodideUrl,
+    indexURL,
+    code,
+    inputJson,
+    stdin,
+    capabilities,
+    environment,
+    deterministic,
+    memoryLimitMB,
+  } = data;
+
+  // Bound up front, since the process global is removed before user code
+  const send = process.send!.bind(process);
+  const cpuUsage = process.cpuUsage.bind(process);
+  const post = (message: PythonWorkerMessage) => {
+    send(message);
+  };
+
+  const logs: LogEntry[] = [];
+  let runStart = Date.now();
+  const capture = (stream: LogEntry['stream']) => (line: string) => {
+    if (!capabilities.includes('console')) return;
+    const entry: LogEntry = {
+      stream,
+      level: stream === 'stderr' ? 'error' : 'log',
+      message: line,
+      timestampMs: deterministic ? 0 : Date.now() - runStart,
+    };
+    logs.push(entry);
+    post({ log: entry });
+  };
+
+  let measureMemory: (() => PythonWorkerMemory) | undefined;
+  // CPU of the whole process (interpreter, GC and I/O threads) while user code runs
+  let cpuStart: NodeJS.CpuUsage | undefined;
+  const measureCpu = () => {
+    if (!cpuStart) return undefined;
+    const { user, system } = cpuUsage(cpuStart);
+    return Math.round((user + system) / 10) / 100;
+  };
+
+  try {
+    lockDownProcess();
+    capWasmMemory(memoryLimitMB * 1024 * 1024);
+
+    const { loadPyodide }: typeof import('pyodide') = await import(pyodideUrl);
+    const pyodide = await loadPyodide({
+      indexURL,
+      jsglobals: {}, // `import js` would otherwise be the worker's globalThis
+      // Fix str/bytes hashing so set and dict-of-set ordering is reproducible
+      env: deterministic ? { PYTHONHASHSEED: String(environment.seed >>> 0) } : {},
+      stdout: capture('stdout'),
+      stderr: capture('stderr'),
+    });
+
+    // stdin is handed over in one read, then EOF
+    let stdinPending = stdin !== undefined;
+    pyodide.setStdin({
+      stdin: () => {
+        if (!stdinPending) return undefined;
+        stdinPending = false;
+        return stdin;
+      },
+    });
+
+    if (inputJson !== undefined) {
+      pyodide.globals.set('INPUT', pyodide.pyimport('json').loads(inputJson));
+    }
+
+    measureMemory = () => ({
+      wasmBytes: wasmMemoryBytes(pyodide),
+      heapBytes: getHeapStatistics().total_heap_size,
+    });
+
+    const helpers = pyodide.toPy({});
+    pyodide.runPython(RESULT_PRELUDE, { globals: helpers });
+    const serialize = helpers.get('serialize');
+
+    pyodide.runPython(CAPABILITY_PRELUDE, { globals: helpers });
+    helpers.get('apply_capabilities')(
+      pyodide.toPy(capabilities),
+      environment.seed,
+      environment.startTime
+    );
+
+    pyodide.unregisterJsModule('js');
+    pyodide.unregisterJsModule('pyodide_js');
+    pyodide.runPython(ISOLATION_PRELUDE, { globals: helpers });
+    helpers.get('block_bridges')();
+    for (const name of NODE_GLOBALS) {
+      delete (globalThis as any)[name];
+    }
+
+    post({ started: true, memory: measureMemory() });
+    runStart = Date.now();
+    cpuStart = cpuUsage();
+    const completion = await pyodide.runPythonAsync(code);
+
+    let resultJson: string | undefined;
+    try {
+      resultJson = serialize(completion) ?? undefined;
+    } catch (error: any) {
+      // Report the TypeError itself rather than the helper's traceback
+      const lines = String(error.message).trim().split('\n');
+      throw new Error(lines[lines.length - 1].replace(/^TypeError: /, ''));
+    }
+
+    // Growth is capped, so this only trips if the cap was bypassed; such a
+    // run's output is withheld rather than returned
+    const memory = measureMemory();
+    if (memory.wasmBytes > memoryLimitMB * 1024 * 1024) {
+      post({ ok: false, error: `Memory limit exceeded: maximum ${memoryLimitMB}MB`, logs: [], memory, cpuTimeMs: measureCpu() });
+      return;
+    }
+
+    post({ ok: true, logs, resultJson, memory, cpuTimeMs: measureCpu()! });
+
+  } catch (error: any) {
+    post({
+      ok: false,
+      error: error.message || 'Unknown Python error',
+      logs,
+      memory: measureMemory?.(),
+      cpuTimeMs: measureCpu(),
+    });
+  }
+}
+
+process.once('message', (data: PythonWorkerData) => run(data));
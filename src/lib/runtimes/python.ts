@@ -0,0 +1,245 @@
+/**
+ * Python Runtime
+ * 
+ * Executes Python via Pyodide (CPython compiled to WASM)
+ * - One child process per execution, with an empty environment, under
+ *   Node's permission model: reads limited to Pyodide's files, no child
+ *   processes, no workers, no writes
+ * - Code generation from strings disabled, so nothing reached from Python
+ *   can evaluate JavaScript
+ * - WASM memory capped in the worker, V8 heap via --max-old-space-size
+ * - Timeout enforced by killing the process
+ * - Phase timings and memory reported even when the worker is killed
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { dirname, extname } from 'path';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+import {
+  RuntimeFailure,
+  elapsedMs,
+  joinLogs,
+  parseResult,
+  type LanguageRuntime,
+  type LogEntry,
+  type RuntimeLimits,
+  type RuntimeMetrics,
+  type RuntimeRunRequest,
+  type RuntimeRunResult,
+} from './types.js';
+import type { PythonWorkerData, PythonWorkerMemory, PythonWorkerMessage } from './python-worker.js';
+
+/**
+ * Time allowed for Pyodide to boot before user code starts,
+ * so interpreter startup is not charged against the tier timeout
+ */
+const PYODIDE_BOOT_ALLOWANCE_MS = 5000;
+
+const PYODIDE_URL = import.meta.resolve('pyodide');
+const PYODIDE_DIR = dirname(fileURLToPath(PYODIDE_URL));
+// Pyodide loads ws at startup for its socket emulation
+const WS_DIR = dirname(createRequire(PYODIDE_URL).resolve('ws'));
+
+let workerSource: string | undefined;
+
+/**
+ * Metrics for a Python run from parent-side timings and the worker's last
+ * memory report
+ *
+ * Pyodide compiles as it runs, so compile time is part of run time. CPU
+ * time is measured by the worker around user code; a worker killed before
+ * reporting it (timeout, V8 out of memory) was busy running that code until
+ * it was killed, so its run time stands in for CPU time.
+ *
+ * @param spawnedAt - performance.now() when the worker was spawned
+ * @param startedAt - performance.now() when user code started, if it did
+ * @param memory - Last memory report, if the worker sent one
+ * @param cpuTimeMs - CPU time of user code, if the worker reported it
+ * @param memoryLimitMB - Limit to report when the worker ran out of memory
+ */
+function pythonMetrics(
+  spawnedAt: number,
+  startedAt: number | undefined,
+  memory: PythonWorkerMemory | undefined,
+  cpuTimeMs?: number,
+  memoryLimitMB?: number
+): RuntimeMetrics {
+  const now = performance.now();
+  const runTimeMs = startedAt === undefined ? 0 : elapsedMs(startedAt, now);
+
+  return {
+    setupTimeMs: elapsedMs(spawnedAt, startedAt ?? now),
+    compileTimeMs: 0,
+    runTimeMs,
+    cpuTimeMs: cpuTimeMs ?? runTimeMs,
+    peakHeapBytes: memoryLimitMB !== undefined ? memoryLimitMB * 1024 * 1024 : memory?.wasmBytes ?? 0,
+    externalMemoryBytes: memory?.heapBytes ?? 0,
+  };
+}
+
+/**
+ * Source of the worker module as JavaScript
+ *
+ * The permission model leaves no room for a TypeScript loader in the
+ * worker, so under tsx the .ts source is transpiled here; once built, the
+ * emitted .js is used as is.
+ */
+function loadWorkerSource(): string {
+  if (workerSource === undefined) {
+    const extension = extname(fileURLToPath(import.meta.url));
+    const source = readFileSync(new URL(`./python-worker${extension}`, import.meta.url), 'utf8');
+
+    workerSource = extension === '.ts'
+      ? ts.transpileModule(source, {
+          compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.ESNext },
+        }).outputText
+      : source;
+  }
+  return workerSource;
+}
+
+/**
+ * Spawn the worker as a locked-down Node process
+ *
+ * @param memoryLimitMB - V8 heap limit of the process
+ */
+function spawnWorker(memoryLimitMB: number): ChildProcess {
+  return spawn(process.execPath, [
+    '--experimental-permission',
+    `--allow-fs-read=${PYODIDE_DIR}/*`,
+    `--allow-fs-read=${WS_DIR}/*`,
+    '--disallow-code-generation-from-strings',
+    `--max-old-space-size=${memoryLimitMB}`,
+    '--no-warnings',
+    '--input-type=module',
+    '--eval', loadWorkerSource(),
+  ], {
+    env: {},
+    stdio: ['ignore', 'ignore', 'ignore', 'ipc'],
+  });
+}
+
+/**
+ * Run Python source in a Pyodide worker process
+ * 
+ * @param request - Source and limits for this execution
+ */
+function runInPyodide({
+  code,
+  input,
+  capabilities,
+  environment,
+  deterministic,
+  timeout,
+  memoryLimitMB,
+  maxResultBytes,
+  executionId,
+  onLog,
+}: RuntimeRunRequest): Promise<RuntimeRunResult> {
+  return new Promise((resolve, reject) => {
+    const spawnedAt = performance.now();
+    let startedAt: number | undefined;
+    let lastMemory: PythonWorkerMemory | undefined; // floor for runs killed mid-way
+    const streamed: LogEntry[] = []; // kept for runs killed before their final message
+
+    const worker = spawnWorker(memoryLimitMB);
+    worker.send({
+      pyodideUrl: PYODIDE_URL,
+      indexURL: `${PYODIDE_DIR}/`,
+      code,
+      inputJson: input?.data === undefined ? undefined : JSON.stringify(input.data),
+      stdin: input?.stdin,
+      capabilities: [...capabilities],
+      environment,
+      deterministic,
+      memoryLimitMB,
+    } satisfies PythonWorkerData);
+
+    let settled = false;
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      worker.kill('SIGKILL');
+      fn();
+    };
+
+    // The interpreter runs synchronously, so the only way to stop it is to kill the process
+    const timer = setTimeout(() => {
+      settle(() => reject(new RuntimeFailure(
+        `Execution timeout: code ran longer than ${timeout}ms`,
+        streamed,
+        undefined,
+        pythonMetrics(spawnedAt, startedAt, lastMemory)
+      )));
+    }, timeout);
+
+    worker.on('message', (message: PythonWorkerMessage) => {
+      // Lines are forwarded as they are printed; the final message repeats them all
+      if ('log' in message) {
+        if (settled) return;
+        streamed.push(message.log);
+        onLog?.(message.log);
+        return;
+      }
+      if ('started' in message) {
+        startedAt = performance.now();
+        lastMemory = message.memory;
+        return;
+      }
+
+      settle(() => {
+        const metrics = pythonMetrics(spawnedAt, startedAt, message.memory, message.cpuTimeMs);
+        if (message.ok) {
+          try {
+            resolve({
+              output: joinLogs(message.logs),
+              logs: message.logs,
+              result: parseResult(message.resultJson, maxResultBytes),
+              metrics,
+            });
+          } catch (error: any) {
+            reject(new RuntimeFailure(error.message, message.logs, undefined, metrics));
+          }
+        } else {
+          reject(new RuntimeFailure(message.error, message.logs, undefined, metrics));
+        }
+      });
+    });
+
+    worker.on('error', (error) => {
+      settle(() => reject(new RuntimeFailure(error.message, streamed, error, pythonMetrics(spawnedAt, startedAt, lastMemory))));
+    });
+
+    worker.on('exit', (exitCode, signal) => {
+      settle(() => {
+        // V8 aborts the process when its heap limit is reached; what the run
+        // printed before that is withheld like any other over-limit run
+        if (signal === 'SIGABRT' || exitCode === 134) {
+          reject(new RuntimeFailure(
+            `Memory limit exceeded: maximum ${memoryLimitMB}MB`,
+            [],
+            undefined,
+            pythonMetrics(spawnedAt, startedAt, lastMemory, undefined, memoryLimitMB)
+          ));
+        } else {
+          reject(new Error(`Python worker ${executionId} exited with code ${exitCode ?? signal}`));
+        }
+      });
+    });
+  });
+}
+
+export const pythonRuntime: LanguageRuntime = {
+  language: 'python',
+  name: 'Python',
+  description: 'Python 3.12 via Pyodide (WASM) in a sandboxed child process',
+  limits: (tierLimits: RuntimeLimits) => ({
+    ...tierLimits,
+    timeout: tierLimits.timeout + PYODIDE_BOOT_ALLOWANCE_MS,
+  }),
+  run: runInPyodide,
+};
@@ -0,0 +1,79 @@
+/**
+ * Language Runtime Registry
+ * 
+ * Single source of truth for which languages the sandbox runs.
+ * Request validation, /api/status capabilities and the x402
+ * payment schema are all derived from the registered runtimes.
+ */
+
+import { CONFIG } from '../config.js';
+import type { LanguageRuntime } from './types.js';
+
+/**
+ * Public description of a runtime for discovery endpoints
+ */
+export interface RuntimeDescriptor {
+  language: string;
+  name: string;
+  description: string;
+}
+
+export class RuntimeRegistry {
+  private runtimes = new Map<string, LanguageRuntime>();
+
+  /**
+   * Register a language runtime
+   * 
+   * @param runtime - Runtime implementation
+   */
+  register(runtime: LanguageRuntime): void {
+    if (this.runtimes.has(runtime.language)) {
+      throw new Error(`Runtime ${runtime.language} is already registered`);
+    }
+    this.runtimes.set(runtime.language, runtime);
+  }
+
+  /**
+   * Whether a language is registered and enabled by ALLOWED_LANGUAGES
+   */
+  has(language: string): boolean {
+    return this.runtimes.has(language) && this.isEnabled(language);
+  }
+
+  /**
+   * Look up an enabled runtime
+   * 
+   * @throws if the language is unknown or disabled
+   */
+  get(language: string): LanguageRuntime {
+    const runtime = this.runtimes.get(language);
+    if (!runtime || !this.isEnabled(language)) {
+      throw new Error(`Language ${language} not supported`);
+    }
+    return runtime;
+  }
+
+  /**
+   * Identifiers of all enabled languages, in registration order
+   */
+  languages(): string[] {
+    return [...this.runtimes.keys()].filter((language) => this.isEnabled(language));
+  }
+
+  /**
+   * Descriptors of all enabled runtimes
+   */
+  describe(): RuntimeDescriptor[] {
+    return this.languages().map((language) => {
+      const { name, description } = this.runtimes.get(language)!;
+      return { language, name, description };
+    });
+  }
+
+  private isEnabled(language: string): boolean {
+    const allowed = CONFIG.sandbox.allowedLanguages;
+    return allowed.includes('*') || allowed.includes(language);
+  }
+}
+
+export const runtimeRegistry = new RuntimeRegistry();
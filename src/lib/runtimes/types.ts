@@ -0,0 +1,189 @@
+/**
+ * Language Runtime Types
+ * 
+ * Contract every sandbox language implements to be registered
+ * with the runtime registry
+ */
+
+import type { Capability, VirtualEnvironment } from './capabilities.js';
+
+/**
+ * Resource limits applied to a single execution
+ */
+export interface RuntimeLimits {
+  timeout: number;         // milliseconds
+  memoryLimitMB: number;   // megabytes
+  maxResultBytes: number;  // size of the JSON-encoded result
+}
+
+/**
+ * Data supplied alongside the code, exposed to it as INPUT / stdin
+ */
+export interface RuntimeInput {
+  data?: unknown;   // JSON payload
+  stdin?: string;   // text readable as standard input
+}
+
+/**
+ * Parameters passed to a runtime for one execution
+ */
+export interface RuntimeRunRequest extends RuntimeLimits {
+  code: string;
+  input?: RuntimeInput;
+  capabilities: readonly Capability[]; // granted by the tier
+  environment: VirtualEnvironment;     // seed and clock for withheld Math / Date
+  deterministic: boolean;              // also report virtual log timestamps
+  executionId: string;
+  sourceMap?: string; // from CompileResult, when the runtime compiled the source
+  onLog?: LogListener; // called as each line is captured, before the run finishes
+}
+
+/**
+ * Problem reported while compiling source, before anything runs
+ */
+export interface CompileDiagnostic {
+  category: 'error' | 'warning';
+  message: string;
+  line?: number;    // 1-based, in the original source
+  column?: number;  // 1-based, in the original source
+}
+
+/**
+ * Output of a runtime's compile step
+ */
+export interface CompileResult {
+  code: string;
+  diagnostics: CompileDiagnostic[];
+  sourceMap?: string;
+}
+
+/**
+ * Thrown when compile produced error diagnostics
+ */
+export class CompilationError extends Error {
+  constructor(public readonly diagnostics: CompileDiagnostic[]) {
+    super(`Compilation failed: ${diagnostics.map((d) => d.message).join('; ')}`);
+    this.name = 'CompilationError';
+  }
+}
+
+/**
+ * One line written by executed code
+ */
+export interface LogEntry {
+  stream: 'stdout' | 'stderr';
+  level: 'log' | 'info' | 'debug' | 'warn' | 'error' | 'table';
+  message: string;
+  timestampMs: number; // milliseconds since the code started running
+}
+
+/**
+ * Receives log lines while code is still running
+ */
+export type LogListener = (entry: LogEntry) => void;
+
+/**
+ * Legacy single-string output: every logged message in order
+ */
+export function joinLogs(logs: LogEntry[]): string {
+  return logs.map((entry) => entry.message).join('\n').trim();
+}
+
+/**
+ * Raw output of a runtime, before proofs are attached
+ */
+export interface RuntimeRunResult {
+  output: string; // every log message, newline-joined
+  logs: LogEntry[];
+  result?: unknown; // JSON-safe value returned by the code, if any
+  metrics: RuntimeMetrics;
+}
+
+/**
+ * Resources a runtime measured for one run
+ */
+export interface RuntimeMetrics {
+  setupTimeMs: number;         // isolate or interpreter startup and preludes
+  compileTimeMs: number;       // compiling the code, where the runtime does so separately
+  runTimeMs: number;           // executing the code and serializing its result
+  cpuTimeMs: number;           // CPU consumed by the isolate or interpreter process
+  peakHeapBytes: number;
+  externalMemoryBytes: number; // outside the heap but counted against the limit
+}
+
+/**
+ * Resources used by a whole execution, as reported to clients
+ */
+export interface ExecutionMetrics extends RuntimeMetrics {
+  wallTimeMs: number; // from taking a pool slot to the result, including compilation
+}
+
+/**
+ * Milliseconds between two performance.now() readings, to 0.01ms
+ */
+export function elapsedMs(from: number, to: number = performance.now()): number {
+  return Math.round((to - from) * 100) / 100;
+}
+
+/**
+ * Decode a result serialized inside the sandbox, enforcing the size limit
+ * 
+ * @param json - JSON text produced in the sandbox, undefined when nothing was returned
+ * @param maxResultBytes - Largest accepted encoding
+ */
+export function parseResult(json: string | null | undefined, maxResultBytes: number): unknown {
+  if (json === undefined || json === null) {
+    return undefined;
+  }
+
+  const size = Buffer.byteLength(json);
+  if (size > maxResultBytes) {
+    throw new Error(`Result too large: ${size} bytes exceeds the ${maxResultBytes} byte limit`);
+  }
+
+  return JSON.parse(json);
+}
+
+/**
+ * Thrown by runtimes when executed code fails, keeping what it logged
+ * and the resources it used first
+ */
+export class RuntimeFailure extends Error {
+  constructor(
+    message: string,
+    public readonly logs: LogEntry[] = [],
+    cause?: unknown,
+    public readonly metrics?: RuntimeMetrics
+  ) {
+    super(message, { cause });
+    this.name = 'RuntimeFailure';
+  }
+}
+
+/**
+ * A language the sandbox can execute
+ */
+export interface LanguageRuntime {
+  /** Identifier accepted in ExecutionRequest.language */
+  language: string;
+  /** Human readable name */
+  name: string;
+  description: string;
+
+  /**
+   * Transform source before it is run (e.g. transpilation)
+   * Runs outside the sandbox, so it must never evaluate user code
+   */
+  compile?(code: string): CompileResult | Promise<CompileResult>;
+
+  /**
+   * Adjust the tier limits for this runtime
+   * Defaults to the tier limits unchanged
+   */
+  limits?(tierLimits: RuntimeLimits): RuntimeLimits;
+
+  /**
+   * Run compiled source under the given limits
+   */
+  run(request: RuntimeRunRequest): Promise<RuntimeRunResult>;
+}
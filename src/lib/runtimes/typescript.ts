@@ -0,0 +1,124 @@
+/**
+ * TypeScript Runtime
+ *
+ * Strips types with the TypeScript compiler, then runs the emitted
+ * JavaScript in the same isolated-vm sandbox as the JavaScript runtime
+ * - Transpile-only: no type checking, user code is never evaluated here
+ * - Syntax problems reported as compile diagnostics
+ * - Runtime error positions mapped back to the original source
+ */
+
+import ts from 'typescript';
+import { SourceMap, type SourceMapPayload } from 'module';
+import { runInIsolate } from './javascript.js';
+import {
+  RuntimeFailure,
+  type CompileDiagnostic,
+  type CompileResult,
+  type LanguageRuntime,
+  type RuntimeRunRequest,
+  type RuntimeRunResult,
+} from './types.js';
+
+const SOURCE_FILE = 'main.ts';
+const EMITTED_FILE = 'main.js';
+
+// Matches positions such as `main.js:3:7` in messages and stacks
+const EMITTED_POSITION = /main\.js:(\d+):(\d+)/;
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  sourceMap: true,
+};
+
+/**
+ * Convert a compiler diagnostic to a 1-based, serializable form
+ */
+function toDiagnostic(diagnostic: ts.Diagnostic): CompileDiagnostic {
+  const result: CompileDiagnostic = {
+    category: diagnostic.category === ts.DiagnosticCategory.Error ? 'error' : 'warning',
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+  };
+
+  if (diagnostic.file && diagnostic.start !== undefined) {
+    const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    result.line = line + 1;
+    result.column = character + 1;
+  }
+
+  return result;
+}
+
+/**
+ * Transpile TypeScript to JavaScript with a source map
+ *
+ * @param code - TypeScript source
+ */
+function transpile(code: string): CompileResult {
+  const output = ts.transpileModule(code, {
+    compilerOptions: COMPILER_OPTIONS,
+    fileName: SOURCE_FILE,
+    reportDiagnostics: true,
+  });
+
+  // Drop the sourceMappingURL comment; the map is passed alongside instead
+  const emitted = output.outputText.replace(/\n\/\/# sourceMappingURL=.*$/, '');
+
+  return {
+    code: emitted,
+    diagnostics: (output.diagnostics ?? []).map(toDiagnostic),
+    sourceMap: output.sourceMapText,
+  };
+}
+
+/**
+ * Rewrite `main.js:line:col` positions to their `main.ts` origin
+ *
+ * @param text - Error message or stack trace
+ * @param sourceMap - Map emitted by transpile
+ */
+function remapPositions(text: string, sourceMap: SourceMap): string {
+  return text.replace(new RegExp(EMITTED_POSITION, 'g'), (match, line: string, column: string) => {
+    const entry = sourceMap.findEntry(Number(line) - 1, Number(column) - 1);
+    if (!('originalLine' in entry)) {
+      return match;
+    }
+    return `${SOURCE_FILE}:${entry.originalLine + 1}:${entry.originalColumn + 1}`;
+  });
+}
+
+/**
+ * Run transpiled TypeScript, mapping error locations to the original source
+ *
+ * @param request - Transpiled source, source map and limits
+ */
+async function runTranspiled(request: RuntimeRunRequest): Promise<RuntimeRunResult> {
+  try {
+    return await runInIsolate(request, EMITTED_FILE);
+  } catch (error: any) {
+    if (!request.sourceMap || !(error instanceof RuntimeFailure)) {
+      throw error;
+    }
+
+    const sourceMap = new SourceMap(JSON.parse(request.sourceMap) as SourceMapPayload);
+    let message = remapPositions(error.message, sourceMap);
+
+    // Runtime errors carry their position only in the stack; surface the top frame
+    const stack = (error.cause as Error | undefined)?.stack;
+    const frame = typeof stack === 'string' ? stack.match(EMITTED_POSITION) : null;
+    if (frame && !message.includes(`${SOURCE_FILE}:`)) {
+      message += ` (${remapPositions(frame[0], sourceMap)})`;
+    }
+
+    throw new RuntimeFailure(message, error.logs, error.cause, error.metrics);
+  }
+}
+
+export const typescriptRuntime: LanguageRuntime = {
+  language: 'typescript',
+  name: 'TypeScript',
+  description: 'TypeScript, transpiled to JavaScript and run in an isolated V8 isolate',
+  compile: transpile,
+  run: runTranspiled,
+};
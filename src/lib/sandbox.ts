@@ -1,7 +1,7 @@
 /**
  * Secure Code Sandbox Executor
  * 
- * Executes untrusted code in isolated V8 environment
+ * Executes untrusted code through the registered language runtimes
  * - Memory limits
  * - Timeout enforcement
  * - No filesystem access
@@ -9,19 +9,50 @@
  * - Separate heap per execution
  */
 
-import ivm from 'isolated-vm';
-import { createHash } from 'crypto';
 import { nanoid } from 'nanoid';
 import { CONFIG } from './config.js';
+import { executionPool } from './pool.js';
+import {
+  proofSigner,
+  hashCode,
+  hashInput,
+  hashOutcome,
+  type ExecutionOutcome,
+  type ProofArtifacts,
+  type ProofVerification,
+  type SignedProof,
+} from './proofs.js';
+import {
+  runtimeRegistry,
+  CompilationError,
+  RuntimeFailure,
+  joinLogs,
+  type CompileDiagnostic,
+  type LogEntry,
+  type LogListener,
+  type RuntimeInput,
+  type RuntimeLimits,
+  type RuntimeMetrics,
+  type ExecutionMetrics,
+  elapsedMs,
+  type Capability,
+  DEFAULT_VIRTUAL_ENVIRONMENT,
+  type VirtualEnvironment,
+} from './runtimes/index.js';
 
 /**
  * Execution request parameters
  */
 export interface ExecutionRequest {
   code: string;
-  language: 'javascript' | 'python';
+  language: string; // any language in runtimeRegistry
   tier: 'basic' | 'standard' | 'premium';
   timeout?: number;
+  input?: RuntimeInput; // exposed as INPUT and stdin, limited separately from code
+  deterministic?: {     // replace randomness and time so re-runs reproduce exactly
+    seed: number;
+    startTime?: number; // epoch ms reported by the frozen clock, defaults to 0
+  };
 }
 
 /**
@@ -29,33 +60,53 @@ export interface ExecutionRequest {
  */
 export interface ExecutionResult {
   success: boolean;
-  output: string;
+  output: string; // legacy: all log messages joined
+  logs: LogEntry[];
+  result?: unknown; // JSON-safe value returned by the code
   error?: string;
-  executionTime: number;
-  memoryUsed: number;
-  proof: string; // SHA-256 hash for verifiability
+  diagnostics?: CompileDiagnostic[]; // compile problems, kept apart from runtime errors
+  executionTime: number; // legacy: wall time in whole ms, see metrics.wallTimeMs
+  memoryUsed: number;    // legacy: metrics.peakHeapBytes
+  metrics: ExecutionMetrics;
+  proof: string; // digest of signedProof.envelope
+  signedProof: SignedProof; // envelope signed by the executor key
   executionId: string;
   tier: string;
+  deterministic?: VirtualEnvironment; // seed and clock used, when requested
 }
 
 /**
- * Tier-specific execution limits
+ * How the caller wants to observe and schedule an execution
  */
-const TIER_LIMITS = {
+export interface ExecuteOptions {
+  onLog?: LogListener;   // receives each log line as it is written
+  waitForSlot?: boolean; // queue past the pool's wait limit instead of failing
+}
+
+/**
+ * Tier-specific execution limits and granted capabilities
+ */
+export const TIER_LIMITS = {
   basic: {
     timeout: 10000,      // 10 seconds
     memory: 64,          // 64 MB
-    features: ['console.log'],
+    maxResultBytes: 64 * 1024,
+    maxInputBytes: 64 * 1024,
+    capabilities: ['console'],
   },
   standard: {
     timeout: 30000,      // 30 seconds
     memory: 128,         // 128 MB
-    features: ['console.log', 'Math', 'Date'],
+    maxResultBytes: 256 * 1024,
+    maxInputBytes: 256 * 1024,
+    capabilities: ['console', 'Math', 'Date'],
   },
   premium: {
     timeout: 60000,      // 60 seconds
     memory: 256,         // 256 MB
-    features: ['console.log', 'Math', 'Date', 'JSON'],
+    maxResultBytes: 1024 * 1024,
+    maxInputBytes: 1024 * 1024,
+    capabilities: ['console', 'Math', 'Date', 'JSON'],
   },
 } as const;
 
@@ -66,184 +117,262 @@ export class SandboxExecutor {
   /**
    * Execute code in isolated sandbox
    * 
+   * Waits for a slot in the execution pool first; throws PoolSaturatedError
+   * when the tier's queue is full, before anything is run or proven.
+   * 
    * @param request - Execution parameters
+   * @param options - Log listener and scheduling
    * @returns Execution result with proof
    */
-  async execute(request: ExecutionRequest): Promise<ExecutionResult> {
+  async execute(request: ExecutionRequest, options: ExecuteOptions = {}): Promise<ExecutionResult> {
+    const release = await executionPool.acquire(request.tier, options.waitForSlot);
+    try {
+      return await this.executeInSlot(request, options);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Compile, run and prove an execution that holds a pool slot
+   * 
+   * @param request - Execution parameters
+   * @param options - Log listener
+   */
+  private async executeInSlot(
+    request: ExecutionRequest,
+    { onLog }: ExecuteOptions
+  ): Promise<ExecutionResult> {
     const executionId = nanoid(16);
     const startTime = Date.now();
+    const wallStart = performance.now();
+    let compileTimeMs = 0;
     const tierLimits = TIER_LIMITS[request.tier];
 
+    // Deterministic mode withholds real randomness and time regardless of tier
+    const environment: VirtualEnvironment = request.deterministic
+      ? { seed: request.deterministic.seed, startTime: request.deterministic.startTime ?? 0 }
+      : DEFAULT_VIRTUAL_ENVIRONMENT;
+    const capabilities = request.deterministic
+      ? tierLimits.capabilities.filter((c) => c !== 'Math' && c !== 'Date')
+      : tierLimits.capabilities;
+
+    // Tier defaults, replaced by the runtime's own limits once it resolves
+    let limits: RuntimeLimits = {
+      timeout: Math.min(request.timeout || tierLimits.timeout, tierLimits.timeout),
+      memoryLimitMB: tierLimits.memory,
+      maxResultBytes: tierLimits.maxResultBytes,
+    };
+
     try {
-      // 1. Validate language support
-      if (!CONFIG.sandbox.allowedLanguages.includes(request.language)) {
-        throw new Error(`Language ${request.language} not supported`);
+      // 1. Resolve the runtime for this language
+      const runtime = runtimeRegistry.get(request.language);
+
+      // 2. Determine limits based on tier
+      if (runtime.limits) {
+        limits = runtime.limits(limits);
       }
 
-      // 2. Currently only JavaScript is implemented
-      // Python would require additional Python interpreter in sandbox
-      if (request.language !== 'javascript') {
-        throw new Error('Python execution coming soon. Use JavaScript for now.');
+      // 3. Check input size against the tier
+      const inputBytes = this.measureInput(request.input);
+      if (inputBytes > tierLimits.maxInputBytes) {
+        throw new Error(
+          `Input too large: ${inputBytes} bytes exceeds the ${tierLimits.maxInputBytes} byte limit`
+        );
       }
 
-      // 3. Determine timeout based on tier
-      const timeout = Math.min(
-        request.timeout || tierLimits.timeout,
-        tierLimits.timeout
-      );
+      // 4. Compile, failing before anything runs on error diagnostics
+      const compileStart = performance.now();
+      const compiled = runtime.compile
+        ? await runtime.compile(request.code)
+        : { code: request.code, diagnostics: [] };
+      compileTimeMs = elapsedMs(compileStart);
 
-      // 4. Execute in isolated environment
-      const result = await this.executeJavaScript(
-        request.code,
-        timeout,
-        tierLimits.memory,
-        executionId
-      );
+      if (compiled.diagnostics.some((d) => d.category === 'error')) {
+        throw new CompilationError(compiled.diagnostics);
+      }
 
-      const executionTime = Date.now() - startTime;
+      // 5. Execute in isolated environment
+      const result = await runtime.run({
+        code: compiled.code,
+        input: request.input,
+        capabilities,
+        environment,
+        deterministic: request.deterministic !== undefined,
+        sourceMap: compiled.sourceMap,
+        ...limits,
+        executionId,
+        onLog,
+      });
 
-      // 5. Generate cryptographic proof
-      const proof = this.generateProof({
-        code: request.code,
-        output: result.output,
-        executionTime,
+      const completedAt = Date.now();
+      const metrics = this.collectMetrics(wallStart, compileTimeMs, result.metrics);
+
+      // 6. Sign the proof envelope
+      const signedProof = await this.generateProof({
+        request,
         executionId,
+        success: true,
+        outcome: { output: result.output, result: result.result },
+        limits,
+        capabilities,
+        environment,
+        metrics,
+        startedAt: startTime,
+        completedAt,
       });
 
       return {
         success: true,
         output: result.output,
-        executionTime,
-        memoryUsed: result.memoryUsed,
-        proof,
+        logs: result.logs,
+        result: result.result,
+        diagnostics: compiled.diagnostics.length > 0 ? compiled.diagnostics : undefined,
+        executionTime: completedAt - startTime,
+        memoryUsed: metrics.peakHeapBytes,
+        metrics,
+        proof: signedProof.digest,
+        signedProof,
         executionId,
         tier: request.tier,
+        deterministic: request.deterministic ? environment : undefined,
       };
 
     } catch (error: any) {
-      const executionTime = Date.now() - startTime;
+      const completedAt = Date.now();
+      const logs = error instanceof RuntimeFailure ? error.logs : [];
+      const message = error.message || 'Unknown execution error';
+      const metrics = this.collectMetrics(
+        wallStart,
+        compileTimeMs,
+        error instanceof RuntimeFailure ? error.metrics : undefined
+      );
 
-      // Generate error proof
-      const proof = this.generateProof({
-        code: request.code,
-        error: error.message,
-        executionTime,
+      // Failures are signed too, committing to the error
+      const signedProof = await this.generateProof({
+        request,
         executionId,
+        success: false,
+        outcome: { output: joinLogs(logs), error: message },
+        limits,
+        capabilities,
+        environment,
+        metrics,
+        startedAt: startTime,
+        completedAt,
       });
 
       return {
         success: false,
-        output: '',
-        error: error.message || 'Unknown execution error',
-        executionTime,
-        memoryUsed: 0,
-        proof,
+        output: joinLogs(logs),
+        logs,
+        error: message,
+        diagnostics: error instanceof CompilationError ? error.diagnostics : undefined,
+        executionTime: completedAt - startTime,
+        memoryUsed: metrics.peakHeapBytes,
+        metrics,
+        proof: signedProof.digest,
+        signedProof,
         executionId,
         tier: request.tier,
+        deterministic: request.deterministic ? environment : undefined,
       };
     }
   }
 
   /**
-   * Execute JavaScript code in isolated-vm
+   * Combine the runtime's measurements with compilation and wall time
    * 
-   * @param code - JavaScript code to execute
-   * @param timeout - Execution timeout in milliseconds
-   * @param memoryLimitMB - Memory limit in megabytes
-   * @param executionId - Unique execution identifier
+   * @param wallStart - performance.now() when the execution got its slot
+   * @param compileTimeMs - Time spent in the runtime's compile step
+   * @param runtimeMetrics - What the runtime measured, if it got that far
    */
-  private async executeJavaScript(
-    code: string,
-    timeout: number,
-    memoryLimitMB: number,
-    executionId: string
-  ): Promise<{ output: string; memoryUsed: number }> {
-    // Create isolated V8 instance with memory limit
-    const isolate = new ivm.Isolate({
-      memoryLimit: memoryLimitMB,
-    });
-
-    try {
-      // Create execution context
-      const context = await isolate.createContext();
-
-      // Capture console.log output
-      let output = '';
-      const consoleLog = new ivm.Reference((msg: string) => {
-        output += msg + '\n';
-      });
-
-      // Inject safe console.log
-      await context.global.set('log', consoleLog);
+  private collectMetrics(
+    wallStart: number,
+    compileTimeMs: number,
+    runtimeMetrics?: RuntimeMetrics
+  ): ExecutionMetrics {
+    const metrics = runtimeMetrics ?? {
+      setupTimeMs: 0,
+      compileTimeMs: 0,
+      runTimeMs: 0,
+      cpuTimeMs: 0,
+      peakHeapBytes: 0,
+      externalMemoryBytes: 0,
+    };
 
-      // Wrap user code with safe console
-      const wrappedCode = `
-        const console = { 
-          log: (...args) => log(args.map(a => String(a)).join(' '))
-        };
-        ${code}
-      `;
-
-      // Compile and execute with timeout
-      const script = await isolate.compileScript(wrappedCode);
-      await script.run(context, { timeout });
-
-      // Get memory usage
-      const heapStats = isolate.getHeapStatisticsSync();
-      const memoryUsed = heapStats.used_heap_size;
-
-      // Clean up
-      isolate.dispose();
-
-      return {
-        output: output.trim(),
-        memoryUsed,
-      };
-
-    } catch (error: any) {
-      // Clean up on error
-      isolate.dispose();
-
-      // Provide helpful error messages
-      if (error.message?.includes('timeout')) {
-        throw new Error(`Execution timeout: code ran longer than ${timeout}ms`);
-      }
-      if (error.message?.includes('memory')) {
-        throw new Error(`Memory limit exceeded: maximum ${memoryLimitMB}MB`);
-      }
+    return {
+      ...metrics,
+      compileTimeMs: Math.round((metrics.compileTimeMs + compileTimeMs) * 100) / 100,
+      wallTimeMs: elapsedMs(wallStart),
+    };
+  }
 
-      throw error;
-    }
+  /**
+   * Size of the input in bytes: JSON-encoded data plus stdin text
+   * 
+   * @param input - Execution input
+   */
+  private measureInput(input?: RuntimeInput): number {
+    if (!input) return 0;
+    const dataBytes = input.data === undefined ? 0 : Buffer.byteLength(JSON.stringify(input.data));
+    const stdinBytes = input.stdin === undefined ? 0 : Buffer.byteLength(input.stdin);
+    return dataBytes + stdinBytes;
   }
 
   /**
-   * Generate cryptographic proof of execution
+   * Build and sign the proof envelope for an execution
    * 
-   * Creates SHA-256 hash of execution details
-   * Can be used to verify execution actually occurred
+   * Commits to the code, input and outcome by hash, plus the limits,
+   * capabilities and timestamps the execution ran under
    * 
-   * @param data - Execution data to hash
+   * @param details - Execution details to commit to
    */
-  private generateProof(data: Record<string, any>): string {
-    const proofData = JSON.stringify({
-      ...data,
-      timestamp: Date.now(),
+  private generateProof(details: {
+    request: ExecutionRequest;
+    executionId: string;
+    success: boolean;
+    outcome: ExecutionOutcome;
+    limits: RuntimeLimits;
+    capabilities: readonly Capability[];
+    environment: VirtualEnvironment;
+    metrics: ExecutionMetrics;
+    startedAt: number;
+    completedAt: number;
+  }): Promise<SignedProof> {
+    const { request, limits } = details;
+
+    return proofSigner.sign({
+      version: 1,
+      executionId: details.executionId,
       network: CONFIG.network.name,
-      executor: CONFIG.wallets.base,
+      language: request.language,
+      tier: request.tier,
+      success: details.success,
+      codeHash: hashCode(request.code),
+      inputHash: hashInput(request.input),
+      outputHash: hashOutcome(details.outcome),
+      limits: {
+        timeout: limits.timeout,
+        memoryLimitMB: limits.memoryLimitMB,
+        maxResultBytes: limits.maxResultBytes,
+        capabilities: details.capabilities,
+      },
+      deterministic: request.deterministic ? details.environment : undefined,
+      metrics: details.metrics,
+      startedAt: details.startedAt,
+      completedAt: details.completedAt,
     });
-
-    return createHash('sha256').update(proofData).digest('hex');
   }
 
   /**
    * Verify execution proof
    * 
-   * @param proof - Proof hash to verify
-   * @param data - Original execution data
+   * @param proof - Signed proof returned with the execution
+   * @param artifacts - Original code, input and outcome to check against the hashes
    */
-  verifyProof(proof: string, data: Record<string, any>): boolean {
-    const regeneratedProof = this.generateProof(data);
-    return proof === regeneratedProof;
+  verifyProof(proof: SignedProof, artifacts?: ProofArtifacts): Promise<ProofVerification> {
+    return proofSigner.verify(proof, artifacts);
   }
 }
 
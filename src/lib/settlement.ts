@@ -0,0 +1,230 @@
+/**
+ * Payment Settlement
+ *
+ * Second phase of an execution's payment: the authorization is verified,
+ * or credit held, before the execution, and collected once it has finished
+ * - credit: the metered charge is debited from the prepaid account
+ * - x402: the facilitator settles the authorization, which moves its whole
+ *   signed value; that value is credited to the payer's account and only
+ *   the metered charge is debited from it, leaving the rest as credit
+ * - Nothing is settled when the charge is zero (e.g. failed executions
+ *   under the default policy)
+ * - A failed settlement is recorded on the payment; the execution has
+ *   already run, but its output is withheld from the payer
+ * - Streamed output leaves while the code runs, so streamed x402
+ *   executions are settled into credit before they start, and that credit
+ *   pays for them
+ */
+
+import { x402Manager, type PaymentPayload, type SettlementResponse } from './x402-payment.js';
+import { accountManager, type CreditHold } from './accounts.js';
+import type { ExecutionPayment } from './history.js';
+import type { ExecutionResult } from './sandbox.js';
+
+/**
+ * What an execution is paid with
+ */
+export type PaymentSource =
+  | { type: 'x402'; authorization: PaymentPayload }
+  | { type: 'credit'; hold: CreditHold };
+
+/**
+ * Result of settling an execution's payment
+ */
+export interface PaymentSettlement {
+  status: 'settled' | 'waived' | 'failed'; // waived: nothing was owed
+  error?: string;
+  settledAt: number;
+}
+
+/**
+ * Raised for an execution whose x402 authorization could not be settled
+ */
+export class SettlementFailedError extends Error {
+  /**
+   * @param payment - Payment with its failed settlement
+   * @param executionId - Execution whose output is withheld; none when
+   *   settlement came first and nothing ran
+   */
+  constructor(readonly payment: ExecutionPayment, readonly executionId?: string) {
+    super(`Payment could not be settled (${payment.settlement?.error ?? 'unknown error'}); ` +
+      (executionId ? `the output of execution ${executionId} is withheld` : 'the code was not run'));
+    this.name = 'SettlementFailedError';
+  }
+}
+
+/**
+ * Collect the billed amount of an execution
+ *
+ * @param payment - Payment with its charge filled in
+ * @param source - X-PAYMENT payload verified, or credit held, before the run
+ * @param executionId - Execution being paid for
+ * @returns The payment with its settlement and transaction hash
+ */
+export async function settleExecution(
+  payment: ExecutionPayment,
+  source: PaymentSource,
+  executionId: string
+): Promise<ExecutionPayment> {
+  if (source.type === 'credit') {
+    await accountManager.capture(source.hold, payment.amount, executionId);
+  }
+
+  if (payment.amount <= 0) {
+    return { ...payment, settlement: { status: 'waived', settledAt: Date.now() } };
+  }
+
+  if (source.type === 'credit') {
+    return { ...payment, settlement: { status: 'settled', settledAt: Date.now() } };
+  }
+
+  const settled = await x402Manager.settlePayment(source.authorization);
+
+  if (!settled.success) {
+    console.error(`Settlement of ${source.authorization.value} units from ${payment.payer} failed: ${settled.error}`);
+    return {
+      ...payment,
+      settlement: { status: 'failed', error: settled.error, settledAt: Date.now() },
+    };
+  }
+
+  const hold = await depositAuthorization(source.authorization, settled, payment.amount);
+  await accountManager.capture(hold, payment.amount, executionId);
+
+  return {
+    ...payment,
+    accountId: hold.accountId,
+    credited: settled.amount!,
+    transactionHash: settled.transactionHash,
+    settlement: { status: 'settled', settledAt: Date.now() },
+  };
+}
+
+/**
+ * Settle an x402 authorization before its execution starts, for output
+ * that leaves while the code runs; its value becomes credit on the payer's
+ * account, which then pays for the execution like any other
+ *
+ * @param payment - Payment as authorized
+ * @param source - Verified X-PAYMENT payload
+ * @returns The payment with the deposit's settlement and transaction hash,
+ *   and the credit held for the execution
+ * @throws SettlementFailedError when it cannot be settled
+ */
+export async function prepayExecution(
+  payment: ExecutionPayment,
+  source: Extract<PaymentSource, { type: 'x402' }>
+): Promise<{ payment: ExecutionPayment; source: Extract<PaymentSource, { type: 'credit' }> }> {
+  const settled = await x402Manager.settlePayment(source.authorization);
+
+  if (!settled.success) {
+    console.error(`Settlement of ${source.authorization.value} units from ${payment.payer} failed: ${settled.error}`);
+    throw new SettlementFailedError({
+      ...payment,
+      settlement: { status: 'failed', error: settled.error, settledAt: Date.now() },
+    });
+  }
+
+  const hold = await depositAuthorization(source.authorization, settled, payment.maxAmount);
+
+  return {
+    payment: {
+      ...payment,
+      accountId: hold.accountId,
+      credited: settled.amount!,
+      transactionHash: settled.transactionHash,
+      settlement: { status: 'settled', settledAt: Date.now() },
+    },
+    source: { type: 'credit', hold },
+  };
+}
+
+/**
+ * Credit what a settled authorization moved to its payer's account and
+ * hold what the execution may be charged from it
+ *
+ * @param authorization - Settled X-PAYMENT payload
+ * @param settled - Its settlement
+ * @param amount - USDC to hold, at most the authorization's value
+ */
+async function depositAuthorization(
+  authorization: PaymentPayload,
+  settled: SettlementResponse,
+  amount: number
+): Promise<CreditHold> {
+  const account = await accountManager.accountFor(authorization.from);
+  await accountManager.deposit(account.accountId, settled.amount!, settled.transactionHash);
+  console.log(`💰 Credited ${settled.amount} USDC from ${authorization.from} to account ${account.accountId}`);
+  return accountManager.hold(account.accountId, amount);
+}
+
+/**
+ * The result as it may be recorded and returned for a payment: unpaid
+ * executions keep their outcome, metrics and proof, but not what the code
+ * printed or returned
+ *
+ * @param result - Finished execution
+ * @param payment - Its settled payment
+ */
+export function withholdUnpaid(result: ExecutionResult, payment: ExecutionPayment): ExecutionResult {
+  if (payment.settlement?.status !== 'failed') {
+    return result;
+  }
+  return { ...result, output: '', logs: [], result: undefined };
+}
+
+/**
+ * Refuse to hand over an execution whose payment could not be settled
+ *
+ * @throws SettlementFailedError when the settlement failed
+ */
+export function assertSettled(payment: ExecutionPayment, executionId: string): void {
+  if (payment.settlement?.status === 'failed') {
+    throw new SettlementFailedError(payment, executionId);
+  }
+}
+
+/**
+ * Give back what was reserved for an execution that never ran: the credit
+ * held, or the claim on an x402 authorization's nonce, so it can be retried
+ */
+export async function releasePayment(source: PaymentSource): Promise<void> {
+  if (source.type === 'credit') {
+    accountManager.release(source.hold);
+  } else {
+    await x402Manager.releaseAuthorization(source.authorization);
+  }
+}
+
+/**
+ * Parsed X-Payment-Response header
+ */
+export interface PaymentResponse {
+  success: boolean;
+  status?: PaymentSettlement['status'];
+  transactionHash?: string;
+  network: string;
+  payer?: string;
+  amount: number;    // USDC collected
+  maxAmount: number; // USDC authorized
+  credited?: number; // USDC an x402 authorization moved into the payer's account
+  error?: string;
+}
+
+/**
+ * X-Payment-Response header value describing a settled payment
+ */
+export function paymentResponseHeader(payment: ExecutionPayment): string {
+  const response: PaymentResponse = {
+    success: payment.settlement?.status !== 'failed',
+    status: payment.settlement?.status,
+    transactionHash: payment.transactionHash,
+    network: payment.network,
+    payer: payment.payer,
+    amount: payment.amount,
+    maxAmount: payment.maxAmount,
+    credited: payment.credited,
+    error: payment.settlement?.error,
+  };
+  return JSON.stringify(response);
+}
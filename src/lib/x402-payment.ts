@@ -3,36 +3,57 @@
  * 
  * Handles the complete x402 payment flow:
  * 1. Payment requirement response (402 status)
- * 2. Payment payload verification
- * 3. Facilitator integration
- * 4. Settlement confirmation
+ * 2. Payment payload verification, including the payer's signature
+ * 3. Facilitator integration, per payment network
+ * 4. Settlement of the authorization, once the execution has finished
  * 
  * Based on Coinbase x402 specification
  */
 
-import { createPublicClient, http, type Address } from 'viem';
-import { base } from 'viem/chains';
+import { createHash } from 'crypto';
 import { CONFIG } from './config.js';
+import { fromUnits, toUnits } from './pricing.js';
+import { nonceLedger } from './nonces.js';
+import { paymentNetworks, type PaymentAdapter, type PaymentPayload, type PaymentStatus } from './networks/index.js';
+
+export type { PaymentPayload } from './networks/index.js';
+
+/**
+ * Schemes accepted in X-PAYMENT; on EVM networks x402's "exact" scheme
+ * is an EIP-3009 transferWithAuthorization
+ */
+const ACCEPTED_SCHEMES = ['exact', 'eip3009'];
+
+/**
+ * Network assumed when X-PAYMENT does not name one
+ */
+export const DEFAULT_NETWORK = CONFIG.networks.default;
+
+const NETWORK_PROFILES = ['mainnet', 'testnet', 'local'];
 
 export interface PaymentRequirement {
   maxAmountRequired: string;
   resource: string;
   description: string;
-  payTo: Address;
-  asset: Address;
+  payTo: string;
+  asset: string;
   network: string;
   scheme: string;
+  mimeType: string;
+  maxTimeoutSeconds: number;
+  outputSchema?: object;
+  extra?: Record<string, unknown>;
 }
 
-export interface PaymentPayload {
-  scheme: string;
-  signature: string;
-  from: Address;
-  to: Address;
-  value: string;
-  validAfter: string;
-  validBefore: string;
-  nonce: string;
+/**
+ * Optional fields of a payment requirement
+ */
+export interface PaymentRequirementOptions {
+  mimeType?: string;          // of the paid resource, defaults to JSON
+  maxTimeoutSeconds?: number; // longest the resource takes to respond
+  outputSchema?: object;
+  extra?: Record<string, unknown>;
+  network?: string;           // payment network, defaults to Base
 }
 
 export interface VerificationResponse {
@@ -41,48 +62,89 @@ export interface VerificationResponse {
   error?: string;
 }
 
-export class X402PaymentManager {
-  private publicClient;
+export interface SettlementResponse {
+  success: boolean;
+  transactionHash?: string;
+  amount?: number; // USDC moved, when settled
+  error?: string;
+}
 
+export class X402PaymentManager {
   constructor() {
-    this.publicClient = createPublicClient({
-      chain: base,
-      transport: http(CONFIG.network.rpcUrl),
-    });
+    if (CONFIG.x402.simulatePayments && CONFIG.server.nodeEnv === 'production') {
+      throw new Error('X402_SIMULATE_PAYMENTS cannot be enabled in production');
+    }
+
+    if (!NETWORK_PROFILES.includes(CONFIG.networks.profile)) {
+      throw new Error(`Unknown NETWORK_PROFILE ${CONFIG.networks.profile}; use ${NETWORK_PROFILES.join(', ')}`);
+    }
+
+    // Test funds must never pay for production executions
+    if (CONFIG.networks.profile !== 'mainnet' && CONFIG.server.nodeEnv === 'production') {
+      throw new Error(`NETWORK_PROFILE=${CONFIG.networks.profile} cannot be used in production`);
+    }
   }
 
   createPaymentRequirement(
     amount: number,
     resource: string,
-    description: string
+    description: string,
+    options: PaymentRequirementOptions = {}
   ): PaymentRequirement {
-    const amountInSmallestUnit = Math.floor(amount * 1_000_000).toString();
+    const amountInSmallestUnit = toUnits(amount).toString();
+    const adapter = paymentNetworks.get(options.network ?? DEFAULT_NETWORK);
+    const { network } = adapter;
 
     return {
       maxAmountRequired: amountInSmallestUnit,
       resource,
       description,
-      payTo: CONFIG.wallets.base as Address,
-      asset: CONFIG.network.usdcAddress as Address,
-      network: CONFIG.network.name,
-      scheme: 'eip3009',
+      payTo: network.payTo,
+      asset: network.asset,
+      network: network.id,
+      scheme: 'exact',
+      mimeType: options.mimeType || 'application/json',
+      maxTimeoutSeconds: options.maxTimeoutSeconds ?? Math.ceil(CONFIG.x402.paymentTimeout / 1000),
+      outputSchema: options.outputSchema,
+      // What the client needs to build the payment, e.g. the token's EIP-712 domain
+      extra: { ...adapter.requirementExtra(), ...options.extra },
     };
   }
 
+  /**
+   * One payment requirement per enabled network, for the same amount
+   */
+  createPaymentRequirements(
+    amount: number,
+    resource: string,
+    description: string,
+    options: Omit<PaymentRequirementOptions, 'network'> = {}
+  ): PaymentRequirement[] {
+    return paymentNetworks.list().map((adapter) =>
+      this.createPaymentRequirement(amount, resource, description, { ...options, network: adapter.network.id })
+    );
+  }
+
   async verifyPayment(
     payload: PaymentPayload,
     requiredAmount: number
   ): Promise<VerificationResponse> {
     try {
-      if (payload.scheme !== 'eip3009') {
+      if (!ACCEPTED_SCHEMES.includes(payload.scheme)) {
         return { valid: false, error: 'Unsupported payment scheme' };
       }
 
-      if (payload.to.toLowerCase() !== CONFIG.wallets.base.toLowerCase()) {
+      const networkId = payload.network ?? DEFAULT_NETWORK;
+      if (!paymentNetworks.has(networkId)) {
+        return { valid: false, error: `Unsupported payment network: ${networkId}` };
+      }
+      const adapter = paymentNetworks.get(networkId);
+
+      if (!adapter.sameAddress(payload.to, adapter.network.payTo)) {
         return { valid: false, error: 'Invalid recipient address' };
       }
 
-      const requiredAmountSmallest = Math.floor(requiredAmount * 1_000_000);
+      const requiredAmountSmallest = toUnits(requiredAmount);
       const paidAmount = parseInt(payload.value);
       
       if (paidAmount < requiredAmountSmallest) {
@@ -92,16 +154,41 @@ export class X402PaymentManager {
         };
       }
 
-      const now = Math.floor(Date.now() / 1000);
-      const validAfter = parseInt(payload.validAfter);
-      const validBefore = parseInt(payload.validBefore);
+      // Checked before the nonce is claimed, so nobody can burn another payer's nonce
+      const signatureError = await adapter.verifyAuthorization(payload);
+      if (signatureError) {
+        return { valid: false, error: signatureError };
+      }
 
-      if (now < validAfter || now > validBefore) {
-        return { valid: false, error: 'Payment authorization expired' };
+      // The validity window comes from what the signature covers, which
+      // differs per network
+      const validity = await adapter.validity(payload);
+      if ('error' in validity) {
+        return { valid: false, error: validity.error };
+      }
+
+      if (CONFIG.x402.checkBalance) {
+        const balance = await adapter.getBalance(payload.from);
+        if (balance < BigInt(payload.value)) {
+          return { valid: false, error: `Insufficient USDC balance: ${balance} < ${payload.value}` };
+        }
+      }
+
+      // Claimed before anything runs, so concurrent replays cannot both pass
+      const authorizationId = adapter.authorizationId(payload);
+      if (!await nonceLedger.claim(networkId, payload.from, authorizationId, validity.validBefore)) {
+        return { valid: false, error: 'Payment authorization already used' };
+      }
+
+      const verified = CONFIG.x402.simulatePayments
+        ? this.simulatePayment(payload)
+        : await this.verifyWithFacilitator(payload, adapter);
+
+      // A rejected authorization did not pay for anything; let it be retried
+      if (!verified.valid) {
+        await nonceLedger.release(networkId, payload.from, authorizationId);
       }
 
-      const verified = await this.verifyWithFacilitator(payload);
-      
       return verified;
 
     } catch (error) {
@@ -113,8 +200,91 @@ export class X402PaymentManager {
     }
   }
 
+  /**
+   * Accept an authorization that passed the local checks, without the
+   * facilitator; only when X402_SIMULATE_PAYMENTS is set
+   */
+  private simulatePayment(payload: PaymentPayload): VerificationResponse {
+    console.log(`⚠️ Simulated payment: authorization from ${payload.from} verified locally`);
+    return { valid: true };
+  }
+
+  /**
+   * Settle a verified authorization, after the execution it paid for has
+   * finished
+   *
+   * The exact scheme cannot collect part of an authorization: an EIP-3009
+   * transferWithAuthorization or a signed Solana transfer moves its whole
+   * value, so the amount reported is the facilitator's, else that value.
+   *
+   * @param payload - Authorization accepted by verifyPayment
+   */
+  async settlePayment(payload: PaymentPayload): Promise<SettlementResponse> {
+    const adapter = paymentNetworks.get(payload.network ?? DEFAULT_NETWORK);
+    const value = fromUnits(parseInt(payload.value));
+
+    if (CONFIG.x402.simulatePayments) {
+      console.log(`⚠️ Simulated settlement of ${value} USDC from ${payload.from} on ${adapter.network.id}; nothing transferred`);
+      const id = `${adapter.network.id}:${adapter.authorizationId(payload)}`;
+      return {
+        success: true,
+        transactionHash: `0x${createHash('sha256').update(id).digest('hex')}`,
+        amount: value,
+      };
+    }
+
+    try {
+      const response = await fetch(`${CONFIG.x402.facilitatorUrl}/settle`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          payment: payload,
+          network: adapter.network.id,
+          asset: adapter.network.asset,
+        }),
+        signal: AbortSignal.timeout(CONFIG.x402.paymentTimeout),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ error: 'Unknown facilitator error' }));
+        return { success: false, error: (error as any).error || 'Facilitator settlement failed' };
+      }
+
+      const result = await response.json() as { transactionHash?: string; amount?: string };
+
+      return {
+        success: true,
+        transactionHash: result.transactionHash,
+        amount: result.amount === undefined ? value : fromUnits(parseInt(result.amount)),
+      };
+
+    } catch (error) {
+      console.error('Facilitator settlement error:', error);
+
+      return {
+        success: false,
+        error: 'Failed to communicate with payment facilitator',
+      };
+    }
+  }
+
+  /**
+   * Let a verified authorization that paid for nothing be used again, e.g.
+   * one whose execution never started
+   */
+  async releaseAuthorization(payload: PaymentPayload): Promise<void> {
+    const networkId = payload.network ?? DEFAULT_NETWORK;
+    if (!paymentNetworks.has(networkId)) return;
+
+    const adapter = paymentNetworks.get(networkId);
+    await nonceLedger.release(networkId, payload.from, adapter.authorizationId(payload));
+  }
+
   private async verifyWithFacilitator(
-    payload: PaymentPayload
+    payload: PaymentPayload,
+    adapter: PaymentAdapter
   ): Promise<VerificationResponse> {
     try {
       const response = await fetch(`${CONFIG.x402.facilitatorUrl}/verify`, {
@@ -124,8 +294,8 @@ export class X402PaymentManager {
         },
         body: JSON.stringify({
           payment: payload,
-          network: CONFIG.network.name,
-          asset: CONFIG.network.usdcAddress,
+          network: adapter.network.id,
+          asset: adapter.network.asset,
         }),
       });
 
@@ -143,15 +313,7 @@ export class X402PaymentManager {
 
     } catch (error) {
       console.error('Facilitator communication error:', error);
-      
-      if (CONFIG.server.nodeEnv === 'development') {
-        console.log('⚠️ Development mode: Simulating payment verification');
-        return {
-          valid: true,
-          transactionHash: `0x${payload.nonce.padEnd(64, '0')}`,
-        };
-      }
-      
+
       return { 
         valid: false, 
         error: 'Failed to communicate with payment facilitator' 
@@ -187,19 +349,9 @@ export class X402PaymentManager {
     }
   }
 
-  async getPaymentStatus(txHash: string): Promise<{
-    confirmed: boolean;
-    blockNumber?: bigint;
-  }> {
+  async getPaymentStatus(txHash: string, network: string = DEFAULT_NETWORK): Promise<PaymentStatus> {
     try {
-      const receipt = await this.publicClient.getTransactionReceipt({
-        hash: txHash as Address,
-      });
-
-      return {
-        confirmed: receipt.status === 'success',
-        blockNumber: receipt.blockNumber,
-      };
+      return await paymentNetworks.get(network).getPaymentStatus(txHash);
     } catch (error) {
       console.error('Error checking payment status:', error);
       return { confirmed: false };
@@ -0,0 +1,45 @@
+/**
+ * MCP Bridge
+ *
+ * MCP server that forwards tool listings and calls to the agent's HTTP
+ * endpoint (POST /mcp) instead of running them in this process. Executions,
+ * holds and settlements all happen in the one agent process, so a prepaid
+ * account cannot be spent twice from a separate copy of its balance.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { CONFIG } from '../lib/config.js';
+
+export interface McpBridgeOptions {
+  serverUrl: string; // agent origin, e.g. http://localhost:3000
+  apiKey?: string;   // pays for executions the host forwards no payment for
+}
+
+/**
+ * Connect to the agent and build the server relaying to it
+ *
+ * @param options - Agent to relay to and the API key to send it
+ * @throws when the agent cannot be reached or refuses the API key
+ */
+export async function createMcpBridge(options: McpBridgeOptions): Promise<Server> {
+  const client = new Client({ name: `${CONFIG.agent.name} bridge`, version: CONFIG.agent.version });
+  await client.connect(new StreamableHTTPClientTransport(new URL('/mcp', options.serverUrl), {
+    requestInit: options.apiKey ? { headers: { Authorization: `Bearer ${options.apiKey}` } } : undefined,
+  }));
+
+  const server = new Server(
+    { name: CONFIG.agent.name, version: CONFIG.agent.version },
+    { capabilities: { tools: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, (request) => client.listTools(request.params));
+  server.setRequestHandler(CallToolRequestSchema, (request) => client.callTool(request.params));
+  server.onclose = () => {
+    client.close();
+  };
+
+  return server;
+}
@@ -0,0 +1,239 @@
+/**
+ * MCP Server
+ *
+ * Exposes the sandbox to MCP hosts as tools, over stdio or HTTP:
+ * - execute_code: run code, paid by an x402 payment forwarded from the
+ *   host or from a prepaid account's credit
+ * - get_execution: a recorded execution with its proof and payment
+ * - get_pricing: tier prices, metering rates and payment options
+ *
+ * Without a payment or an account, execute_code answers with the payment
+ * requirements, so the host can sign one and call again.
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { CONFIG } from '../lib/config.js';
+import { TIER_LIMITS, type ExecutionRequest } from '../lib/sandbox.js';
+import { runtimeRegistry } from '../lib/runtimes/index.js';
+import { executionStore, isSamePayer, type ExecutionPayment } from '../lib/history.js';
+import { pricingEngine, type PricingTier } from '../lib/pricing.js';
+import { accountManager, InsufficientCreditError, type Account } from '../lib/accounts.js';
+import { paymentNetworks } from '../lib/networks/index.js';
+import { x402Manager } from '../lib/x402-payment.js';
+import { SettlementFailedError, type PaymentSource } from '../lib/settlement.js';
+import { holdCredit, runPaidExecution } from '../lib/paid-execution.js';
+import { createExecuteOutputSchema } from '../lib/execute-schema.js';
+
+const PRICING_TIERS = Object.keys(CONFIG.pricing) as PricingTier[];
+
+export interface McpServerOptions {
+  account?: Account; // pays for executions when the host forwards no payment
+}
+
+/**
+ * Tool result carrying a JSON document
+ */
+function jsonResult(value: unknown, isError = false): CallToolResult {
+  return {
+    content: [{ type: 'text', text: JSON.stringify(value, null, 2) }],
+    isError,
+  };
+}
+
+function errorResult(error: string, message: string, details?: unknown): CallToolResult {
+  return jsonResult({ error, message, details }, true);
+}
+
+/**
+ * URL payments made through MCP are for
+ */
+function mcpResource(): string {
+  return `${CONFIG.server.publicUrl || `http://localhost:${CONFIG.server.port}`}/mcp`;
+}
+
+/**
+ * Payment options for one execution on a tier
+ */
+function paymentRequired(tier: PricingTier, message: string): CallToolResult {
+  const accepts = x402Manager.createPaymentRequirements(
+    pricingEngine.maxCharge(tier),
+    mcpResource(),
+    `Execute code in secure sandbox (${tier} tier)`,
+    {
+      maxTimeoutSeconds: Math.ceil(TIER_LIMITS[tier].timeout / 1000),
+      outputSchema: createExecuteOutputSchema(),
+      extra: { tier },
+    }
+  );
+  return jsonResult({ x402Version: 1, error: 'Payment Required', message, accepts }, true);
+}
+
+/**
+ * Build an MCP server; one per HTTP request, or one for a stdio session
+ *
+ * @param options - Account paying when no payment is forwarded
+ */
+export function createMcpServer(options: McpServerOptions = {}): McpServer {
+  const server = new McpServer({
+    name: CONFIG.agent.name,
+    version: CONFIG.agent.version,
+  });
+
+  server.registerTool(
+    'execute_code',
+    {
+      title: 'Execute code',
+      description:
+        `Run code in an isolated sandbox and return its output, result and signed proof. ` +
+        `Languages: ${runtimeRegistry.languages().join(', ')}. Paid per execution: pass an x402 ` +
+        'X-PAYMENT value in `payment`, or configure a prepaid API key. Without either, the ' +
+        'payment requirements are returned.',
+      inputSchema: {
+        code: z.string().min(1).max(10000).describe('Source code to run'),
+        language: z.string().default('javascript').describe('Runtime language'),
+        tier: z.enum(['basic', 'standard', 'premium']).default('basic').describe('Pricing and limits tier'),
+        input: z.object({
+          data: z.unknown().optional(),
+          stdin: z.string().optional(),
+        }).optional().describe('Exposed to the code as INPUT and stdin'),
+        deterministic: z.object({
+          seed: z.number().int(),
+          startTime: z.number().int().nonnegative().optional(),
+        }).optional().describe('Seed randomness and freeze the clock for reproducible runs'),
+        payment: z.string().optional().describe('X-PAYMENT header value (JSON) authorizing the tier maximum'),
+      },
+    },
+    async ({ code, language, tier, input, deterministic, payment }, extra) => {
+      if (!runtimeRegistry.has(language)) {
+        return errorResult('Invalid Request', `Unsupported language ${language}; expected one of ${runtimeRegistry.languages().join(', ')}`);
+      }
+
+      // Forwarded by the host as an argument, or on the HTTP request itself
+      const header = payment ?? extra.requestInfo?.headers['x-payment'];
+      const paymentHeader = Array.isArray(header) ? header[0] : header;
+
+      let source: PaymentSource;
+      let authorization: ExecutionPayment;
+      try {
+        if (paymentHeader) {
+          const payload = x402Manager.parsePaymentHeader(paymentHeader);
+          if (!payload) {
+            return errorResult('Invalid Payment', 'Could not parse payment');
+          }
+
+          const maxAmount = pricingEngine.maxCharge(tier);
+          const verification = await x402Manager.verifyPayment(payload, maxAmount);
+          if (!verification.valid) {
+            return paymentRequired(tier, verification.error || 'Payment verification failed');
+          }
+
+          source = { type: 'x402', authorization: payload };
+          authorization = {
+            amount: 0,
+            maxAmount,
+            payer: payload.from,
+            transactionHash: verification.transactionHash,
+            network: payload.network ?? CONFIG.networks.default,
+            token: CONFIG.x402.paymentToken,
+          };
+        } else if (options.account) {
+          ({ source, authorization } = holdCredit(options.account, tier));
+        } else {
+          return paymentRequired(tier, 'Pass an X-PAYMENT value in `payment`, or configure a prepaid API key');
+        }
+
+        const request: ExecutionRequest = { code, language, tier, input, deterministic };
+        console.log(`🔌 MCP executing ${language} code for ${authorization.payer} (tier: ${tier})`);
+
+        // The payment is already verified, so wait for a slot rather than refuse
+        const { result, payment: settled } = await runPaidExecution(request, authorization, source, { waitForSlot: true });
+
+        return jsonResult({
+          success: result.success,
+          output: result.output,
+          result: result.result,
+          error: result.error,
+          diagnostics: result.diagnostics,
+          metrics: result.metrics,
+          executionId: result.executionId,
+          proof: result.proof,
+          signedProof: result.signedProof,
+          payment: settled,
+        });
+
+      } catch (error: any) {
+        if (error instanceof InsufficientCreditError) {
+          return errorResult('Insufficient Credit', error.message, {
+            available: error.available,
+            required: error.required,
+          });
+        }
+
+        if (error instanceof SettlementFailedError) {
+          return errorResult('Settlement Failed', error.message, {
+            executionId: error.executionId,
+            payment: error.payment,
+          });
+        }
+
+        console.error('MCP execute_code error:', error);
+        return errorResult('Execution Failed', error.message || 'An error occurred during execution');
+      }
+    }
+  );
+
+  server.registerTool(
+    'get_execution',
+    {
+      title: 'Get execution',
+      description: 'Look up one of your recorded executions by ID, with its code, output, signed proof and payment; needs an API key on the connection',
+      inputSchema: {
+        executionId: z.string().min(1).describe('ID returned by execute_code'),
+      },
+      annotations: { readOnlyHint: true },
+    },
+    async ({ executionId }) => {
+      if (!options.account) {
+        return errorResult('Unauthorized', 'Looking up executions needs an API key (Authorization: Bearer <key>, or MCP_API_KEY over stdio)');
+      }
+
+      // Other payers' executions are reported as missing, not forbidden, so IDs cannot be probed
+      const record = await executionStore.get(executionId);
+      const payer = record?.payment.payer;
+      return record && payer && isSamePayer(payer, options.account.owner)
+        ? jsonResult(record)
+        : errorResult('Not Found', `Execution ${executionId} not found`);
+    }
+  );
+
+  server.registerTool(
+    'get_pricing',
+    {
+      title: 'Get pricing',
+      description: 'Price and limits of each tier, metering rates, settlement policy and accepted payment networks',
+      annotations: { readOnlyHint: true },
+    },
+    async () => jsonResult({
+      tiers: Object.fromEntries(PRICING_TIERS.map((tier) => [tier, {
+        maxPrice: CONFIG.pricing[tier], // USDC; moved in full over x402, credit is charged usage up to it
+        baseFee: CONFIG.metering.baseFee[tier],
+        timeout: TIER_LIMITS[tier].timeout,
+        memory: TIER_LIMITS[tier].memory,
+        capabilities: TIER_LIMITS[tier].capabilities,
+      }])),
+      metering: {
+        appliesTo: ['x402', 'credit'],
+        cpuPerSecond: CONFIG.metering.cpuPerSecond,
+        memoryPerGBSecond: CONFIG.metering.memoryPerGBSecond,
+      },
+      settlement: CONFIG.settlement,
+      token: CONFIG.x402.paymentToken,
+      networks: paymentNetworks.describe(),
+      account: options.account ? accountManager.summarize(options.account) : undefined,
+    })
+  );
+
+  return server;
+}
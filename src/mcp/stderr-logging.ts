@@ -0,0 +1,10 @@
+/**
+ * Imported first by the stdio entry point: stdout carries the MCP
+ * protocol, so every console method writes to stderr instead
+ */
+
+import { Console } from 'console';
+
+globalThis.console = new Console(process.stderr, process.stderr);
+
+export {};
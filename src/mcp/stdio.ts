@@ -0,0 +1,30 @@
+/**
+ * MCP Server over stdio
+ *
+ * npm run mcp
+ *
+ * For MCP hosts that launch the server as a subprocess. This process is a
+ * bridge: tool calls are relayed to the running agent's POST /mcp
+ * (MCP_SERVER_URL), which executes and bills them. Set MCP_API_KEY to pay
+ * from prepaid credit when the host forwards no payment.
+ */
+
+import './stderr-logging.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { CONFIG } from '../lib/config.js';
+import { createMcpBridge } from './bridge.js';
+
+const serverUrl = CONFIG.mcp.serverUrl || `http://localhost:${CONFIG.server.port}`;
+
+let server: Server;
+try {
+  server = await createMcpBridge({ serverUrl, apiKey: CONFIG.mcp.apiKey });
+} catch (error: any) {
+  console.error(`❌ Could not connect to the agent at ${serverUrl}/mcp: ${error.message}`);
+  process.exit(1);
+}
+
+await server.connect(new StdioServerTransport());
+
+console.error(`🔌 MCP server on stdio, relaying to ${serverUrl}/mcp${CONFIG.mcp.apiKey ? ' with MCP_API_KEY' : ''}`);
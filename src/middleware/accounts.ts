@@ -0,0 +1,102 @@
+import type { Request, Response, NextFunction } from 'express';
+import { accountManager, type Account } from '../lib/accounts.js';
+import { CONFIG } from '../lib/config.js';
+import { x402Manager } from '../lib/x402-payment.js';
+import {
+  optionalPayment,
+  requirePayment,
+  resourceUrl,
+  type PaymentRequiredBody,
+  type X402MiddlewareConfig,
+  type X402Request,
+} from './x402.js';
+
+export interface AccountRequest extends X402Request {
+  account?: Account;
+}
+
+/**
+ * API key from `Authorization: Bearer <key>` or `X-API-Key`
+ */
+function apiKeyOf(req: Request): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  return req.headers['x-api-key'] as string | undefined;
+}
+
+/**
+ * Attach the prepaid account named by the request's API key
+ *
+ * An unknown key is always rejected; a missing key only when required.
+ */
+export function authenticateAccount(options: { required?: boolean } = {}) {
+  return (req: AccountRequest, res: Response, next: NextFunction) => {
+    const apiKey = apiKeyOf(req);
+
+    if (!apiKey) {
+      if (options.required) {
+        return res.status(401).json({
+          error: 'Unauthorized',
+          message: 'An API key is required (Authorization: Bearer <key> or X-API-Key)',
+        });
+      }
+      return next();
+    }
+
+    const account = accountManager.authenticate(apiKey);
+    if (!account) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Unknown API key',
+      });
+    }
+
+    req.account = account;
+    next();
+  };
+}
+
+/**
+ * Require x402 payment unless the caller has a prepaid account
+ *
+ * Account holders may still attach X-PAYMENT to pay for a single call;
+ * without it, the handler charges their credit instead.
+ */
+export function requirePaymentOrCredit(config: X402MiddlewareConfig) {
+  const withPayment = requirePayment(config);
+  const withCredit = optionalPayment(config);
+
+  return (req: AccountRequest, res: Response, next: NextFunction) => {
+    return req.account ? withCredit(req, res, next) : withPayment(req, res, next);
+  };
+}
+
+/**
+ * Deposit requested in the body, or the minimum when it is missing or too small
+ */
+export function depositAmount(req: Request): number {
+  const amount = req.body?.amount;
+  return typeof amount === 'number' && amount >= CONFIG.accounts.minDeposit
+    ? amount
+    : CONFIG.accounts.minDeposit;
+}
+
+/**
+ * 402 body for a deposit: one option per payment network for the
+ * requested amount
+ */
+export function createDepositRequired(
+  req: Request,
+  description: string,
+  error?: string
+): PaymentRequiredBody {
+  return {
+    x402Version: 1,
+    error,
+    accepts: x402Manager.createPaymentRequirements(depositAmount(req), resourceUrl(req), description, {
+      extra: { minDeposit: CONFIG.accounts.minDeposit },
+    }),
+  };
+}
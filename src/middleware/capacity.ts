@@ -0,0 +1,37 @@
+import type { Request, Response, NextFunction } from 'express';
+import { executionPool, PoolSaturatedError, type PoolTier } from '../lib/pool.js';
+
+/**
+ * Send 429 with a Retry-After hint for a saturated tier
+ */
+export function sendPoolSaturated(res: Response, error: PoolSaturatedError) {
+  res.setHeader('Retry-After', String(error.retryAfterSeconds));
+  return res.status(429).json({
+    error: 'Too Many Requests',
+    message: error.message,
+    tier: error.tier,
+    retryAfter: error.retryAfterSeconds,
+  });
+}
+
+/**
+ * Turn synchronous executions away before payment when their tier is full
+ *
+ * Async submissions pass through: they wait in the job queue instead.
+ * Requests without a known tier are left for the handler to validate.
+ */
+export function requireCapacity() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const tier = req.body?.tier as PoolTier | undefined;
+
+    if (req.body?.async === true || !tier || !(tier in executionPool.stats())) {
+      return next();
+    }
+
+    if (!executionPool.hasCapacity(tier)) {
+      return sendPoolSaturated(res, new PoolSaturatedError(tier, executionPool.retryAfter(tier)));
+    }
+
+    next();
+  };
+}
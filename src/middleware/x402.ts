@@ -1,19 +1,106 @@
 import type { Request, Response, NextFunction } from 'express';
-import { x402Manager } from '../lib/x402-payment.js';
+import { DEFAULT_NETWORK, x402Manager, type PaymentPayload, type PaymentRequirement } from '../lib/x402-payment.js';
 import { CONFIG } from '../lib/config.js';
+import { createExecuteOutputSchema } from '../lib/execute-schema.js';
+import { pricingEngine, type PricingTier } from '../lib/pricing.js';
+import { TIER_LIMITS } from '../lib/sandbox.js';
 
 export interface X402Request extends Request {
   x402Payment?: {
     verified: boolean;
-    amount: number;
+    amount: number; // required; the signed value, which settles in full, may be higher
     transactionHash?: string;
     payer?: string;
+    network?: string;               // payment network the authorization is on
+    authorization?: PaymentPayload; // settled by the handler once the work is done
   };
 }
 
 export interface X402MiddlewareConfig {
-  amount: number;
+  // Fixed, or resolved per request; undefined when the request names no valid tier
+  amount: number | ((req: Request) => number | undefined);
   description: string;
+  // Builds the 402 body; defaults to one option per execution tier and network
+  paymentRequired?: (req: Request, description: string, error?: string) => PaymentRequiredBody;
+}
+
+/**
+ * 402 Payment Required body
+ */
+export interface PaymentRequiredBody {
+  x402Version: 1;
+  error?: string;
+  accepts: PaymentRequirement[];
+}
+
+const PRICING_TIERS = Object.keys(CONFIG.pricing) as PricingTier[];
+
+/**
+ * Amount required for this request
+ */
+function requiredAmount(config: X402MiddlewareConfig, req: Request): number | undefined {
+  return typeof config.amount === 'function' ? config.amount(req) : config.amount;
+}
+
+/**
+ * Tier named in the request body, if it is one we price
+ */
+export function requestedTier(req: Request): PricingTier | undefined {
+  const tier = req.body?.tier;
+  return PRICING_TIERS.find((known) => known === tier);
+}
+
+/**
+ * Maximum price of the tier named in the request body
+ */
+export function tierAmount(req: Request): number | undefined {
+  const tier = requestedTier(req);
+  return tier && pricingEngine.maxCharge(tier);
+}
+
+/**
+ * Absolute URL of the paid resource
+ */
+export function resourceUrl(req: Request): string {
+  const origin = CONFIG.server.publicUrl || `${req.protocol}://${req.get('host')}`;
+  return `${origin}${req.baseUrl}${req.path}`;
+}
+
+/**
+ * Build the 402 body: one payment option per tier and payment network,
+ * priced from config, with the tier the request asked for listed first
+ *
+ * @param req - Request being charged
+ * @param description - What the payment buys
+ * @param error - Why a supplied payment was not accepted
+ */
+export function createPaymentRequired(
+  req: Request,
+  description: string,
+  error?: string
+): PaymentRequiredBody {
+  const resource = resourceUrl(req);
+  const requested = requestedTier(req);
+  const tiers = requested
+    ? [requested, ...PRICING_TIERS.filter((tier) => tier !== requested)]
+    : PRICING_TIERS;
+
+  return {
+    x402Version: 1,
+    error,
+    accepts: tiers.flatMap((tier) =>
+      x402Manager.createPaymentRequirements(
+        pricingEngine.maxCharge(tier),
+        resource,
+        `${description} (${tier} tier)`,
+        {
+          maxTimeoutSeconds: Math.ceil(TIER_LIMITS[tier].timeout / 1000),
+          outputSchema: createExecuteOutputSchema(),
+          extra: { tier },
+        }
+      )
+    ),
+  };
 }
 
 export function requirePayment(config: X402MiddlewareConfig) {
@@ -22,66 +109,9 @@ export function requirePayment(config: X402MiddlewareConfig) {
       const paymentHeader = req.headers['x-payment'] as string | undefined;
 
       if (!paymentHeader) {
-        // Return same 402 response as GET /api/execute
-        return res.status(402).json({
-          x402Version: 1,
-          accepts: [
-            {
-              scheme: "exact",
-              network: "base",
-              maxAmountRequired: "20000",
-              resource: "https://lucid-sandbox-agent-production.up.railway.app/api/execute",
-              description: "Execute JavaScript code in secure sandbox",
-              mimeType: "application/json",
-              payTo: "0x11c24Fbcd702cd611729F8402d8fB51ECa75Ba83",
-              maxTimeoutSeconds: 60,
-              asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-              outputSchema: {
-                input: {
-                  type: "http",
-                  method: "POST",
-                  bodyType: "json",
-                  bodyFields: {
-                    code: {
-                      type: "string",
-                      required: true,
-                      description: "JavaScript code to execute",
-                    },
-                    language: {
-                      type: "string",
-                      required: true,
-                      description: "Programming language",
-                      enum: ["javascript", "python"]
-                    },
-                    tier: {
-                      type: "string",
-                      required: true,
-                      description: "Execution tier",
-                      enum: ["basic", "standard", "premium"]
-                    }
-                  }
-                },
-                output: {
-                  type: "object",
-                  properties: {
-                    success: { 
-                      type: "boolean",
-                      description: "Execution success status"
-                    },
-                    output: { 
-                      type: "string",
-                      description: "Console output"
-                    },
-                    executionTime: { 
-                      type: "number",
-                      description: "Execution time in ms"
-                    }
-                  }
-                }
-              }
-            }
-          ]
-        });
+        // Same 402 response as GET /api/execute
+        const paymentRequired = config.paymentRequired ?? createPaymentRequired;
+        return res.status(402).json(paymentRequired(req, config.description));
       }
 
       const paymentPayload = x402Manager.parsePaymentHeader(paymentHeader);
@@ -93,33 +123,41 @@ export function requirePayment(config: X402MiddlewareConfig) {
         });
       }
 
+      // Verified against the tier actually requested, not the cheapest one
+      const amount = requiredAmount(config, req);
+      if (amount === undefined) {
+        return res.status(400).json({
+          error: 'Invalid Tier',
+          message: 'Request body must name a pricing tier',
+          details: { tiers: PRICING_TIERS },
+        });
+      }
+
       const verification = await x402Manager.verifyPayment(
         paymentPayload,
-        config.amount
+        amount
       );
 
       if (!verification.valid) {
+        const message = verification.error || 'Payment could not be verified';
+        const paymentRequired = config.paymentRequired ?? createPaymentRequired;
         return res.status(402).json({
+          ...paymentRequired(req, config.description, message),
           error: 'Payment Verification Failed',
-          message: verification.error || 'Payment could not be verified',
+          message,
         });
       }
 
+      // Verified only; the handler settles the charge after executing
       req.x402Payment = {
         verified: true,
-        amount: config.amount,
+        amount,
         transactionHash: verification.transactionHash,
         payer: paymentPayload.from,
+        network: paymentPayload.network ?? DEFAULT_NETWORK,
+        authorization: paymentPayload,
       };
 
-      if (verification.transactionHash) {
-        res.setHeader('X-Payment-Response', JSON.stringify({
-          transactionHash: verification.transactionHash,
-          network: CONFIG.network.name,
-          amount: config.amount,
-        }));
-      }
-
       next();
 
     } catch (error) {
@@ -147,18 +185,22 @@ export function optionalPayment(config: X402MiddlewareConfig) {
 
       const paymentPayload = x402Manager.parsePaymentHeader(paymentHeader);
 
-      if (paymentPayload) {
+      const amount = requiredAmount(config, req);
+
+      if (paymentPayload && amount !== undefined) {
         const verification = await x402Manager.verifyPayment(
           paymentPayload,
-          config.amount
+          amount
         );
 
         if (verification.valid) {
           req.x402Payment = {
             verified: true,
-            amount: config.amount,
+            amount,
             transactionHash: verification.transactionHash,
             payer: paymentPayload.from,
+            network: paymentPayload.network ?? DEFAULT_NETWORK,
+            authorization: paymentPayload,
           };
         } else {
           req.x402Payment = {
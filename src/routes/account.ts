@@ -0,0 +1,121 @@
+/**
+ * Prepaid Account Endpoints
+ *
+ * POST /api/account/deposit
+ * Deposit credit via x402; opens an account and returns its API key on
+ * the first deposit from a payer
+ *
+ * GET /api/account?limit=20&cursor=...
+ * Balance and transaction history for the API key's account
+ */
+
+import type { Response } from 'express';
+import { z } from 'zod';
+import {
+  accountManager,
+  type AccountSummary,
+  type AccountTransaction,
+  type TransactionPage,
+} from '../lib/accounts.js';
+import { x402Manager } from '../lib/x402-payment.js';
+import type { AccountRequest } from '../middleware/accounts.js';
+
+const AccountQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+/**
+ * Deposit response body
+ */
+export interface DepositResponse {
+  account: AccountSummary;
+  apiKey?: string; // only on the first deposit
+  deposit: AccountTransaction;
+}
+
+/**
+ * Account response body: balance and a page of transactions
+ */
+export type AccountResponse = TransactionPage & { account: AccountSummary };
+
+export async function depositHandler(req: AccountRequest, res: Response) {
+  try {
+    const payment = req.x402Payment;
+    if (!payment?.verified || !payment.authorization || !payment.payer) {
+      return res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Payment verification state invalid',
+      });
+    }
+
+    // Deposits are collected in full before any credit is granted
+    const settled = await x402Manager.settlePayment(payment.authorization);
+    if (!settled.success) {
+      return res.status(402).json({
+        error: 'Settlement Failed',
+        message: settled.error || 'Deposit could not be settled',
+      });
+    }
+
+    // Top up the caller's account, else the payer's, else open one
+    let account = req.account ?? accountManager.findByOwner(payment.payer);
+    let apiKey: string | undefined;
+    if (!account) {
+      ({ account, apiKey } = await accountManager.open(payment.payer));
+      console.log(`🏦 Opened account ${account.accountId} for ${payment.payer}`);
+    } else if (!account.apiKeyHash) {
+      // Opened to keep x402 change; the payer's signature claims it
+      apiKey = await accountManager.issueKey(account.accountId);
+      console.log(`🔑 Issued the API key of account ${account.accountId} to ${payment.payer}`);
+    }
+
+    // The whole signed value moves, which may be more than the amount asked for
+    const deposit = await accountManager.deposit(account.accountId, settled.amount!, settled.transactionHash);
+    console.log(`💰 Deposited ${settled.amount} USDC to account ${account.accountId}`);
+
+    const response: DepositResponse = {
+      account: accountManager.summarize(account),
+      apiKey, // only on the first deposit; store it, it cannot be shown again
+      deposit,
+    };
+    res.status(apiKey ? 201 : 200).json(response);
+
+  } catch (error: any) {
+    console.error('Deposit error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Deposit failed',
+    });
+  }
+}
+
+export function accountHandler(req: AccountRequest, res: Response) {
+  try {
+    const validation = AccountQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid Request',
+        message: 'Query validation failed',
+        details: validation.error.issues,
+      });
+    }
+
+    const account = req.account!;
+    const { limit, cursor } = validation.data;
+
+    const response: AccountResponse = {
+      account: accountManager.summarize(account),
+      ...accountManager.history(account.accountId, limit, cursor),
+    };
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('Account lookup error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to retrieve account',
+    });
+  }
+}
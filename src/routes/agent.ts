@@ -0,0 +1,82 @@
+/**
+ * Lucid Agent Endpoints
+ *
+ * GET /.well-known/agent.json
+ * Agent manifest: entrypoints, prices, skills and payment networks
+ *
+ * POST /api/agent
+ * Solve a task in natural language; the agent runs code in the sandbox as
+ * needed, each execution charged to the caller's prepaid credit
+ */
+
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { CONFIG } from '../lib/config.js';
+import type { AccountRequest } from '../middleware/accounts.js';
+import {
+  createAgentManifest,
+  ModelUnavailableError,
+  runSandboxTask,
+  sandboxAgent,
+  type AgentRunResult,
+} from '../agent/index.js';
+
+const AgentRequestSchema = z.object({
+  task: z.string().min(1, 'Task cannot be empty').max(4000, 'Task too long'),
+  tier: z.enum(['basic', 'standard', 'premium']).default('basic'),
+});
+
+/**
+ * Agent run response body
+ */
+export type AgentResponse = AgentRunResult & { timestamp: number };
+
+export function agentManifestHandler(req: Request, res: Response) {
+  const url = CONFIG.server.publicUrl || `${req.protocol}://${req.get('host')}`;
+
+  // Cache for 1 minute, like /api/status
+  res.setHeader('Cache-Control', 'public, max-age=60');
+  res.json(createAgentManifest(url, Boolean(sandboxAgent)));
+}
+
+export async function agentRunHandler(req: AccountRequest, res: Response) {
+  if (!sandboxAgent) {
+    return res.status(503).json({
+      error: 'Agent Unavailable',
+      message: 'No model configured; set OPENAI_API_KEY to enable agent runs',
+    });
+  }
+
+  const validation = AgentRequestSchema.safeParse(req.body);
+  if (!validation.success) {
+    return res.status(400).json({
+      error: 'Invalid Request',
+      message: 'Request validation failed',
+      details: validation.error.issues,
+    });
+  }
+
+  const { task, tier } = validation.data;
+
+  try {
+    console.log(`🤖 Agent run for ${req.account!.owner} (tier: ${tier})`);
+    const result = await runSandboxTask(sandboxAgent, task, req.account!, tier);
+
+    const response: AgentResponse = { ...result, timestamp: Date.now() };
+    res.json(response);
+
+  } catch (error: any) {
+    if (error instanceof ModelUnavailableError) {
+      return res.status(502).json({
+        error: 'Model Unavailable',
+        message: error.message,
+      });
+    }
+
+    console.error('Agent run error:', error);
+    res.status(500).json({
+      error: 'Agent Run Failed',
+      message: error.message || 'An error occurred during the agent run',
+    });
+  }
+}
@@ -1,17 +1,139 @@
 import type { Response } from 'express';
-import type { X402Request } from '../middleware/x402.js';
-import { sandboxExecutor, type ExecutionRequest } from '../lib/sandbox.js';
+import { createPaymentRequired, type X402Request } from '../middleware/x402.js';
+import type { AccountRequest } from '../middleware/accounts.js';
+import type { ExecutionRequest, ExecutionResult } from '../lib/sandbox.js';
 import { CONFIG } from '../lib/config.js';
+import type { ExecutionPayment } from '../lib/history.js';
+import { jobQueue, type JobStatus } from '../lib/jobs.js';
+import { checkCallbackUrl, CallbackUrlError } from '../lib/callbacks.js';
+import { PoolSaturatedError } from '../lib/pool.js';
+import { pricingEngine } from '../lib/pricing.js';
+import { accountManager, InsufficientCreditError } from '../lib/accounts.js';
+import {
+  paymentResponseHeader,
+  prepayExecution,
+  releasePayment,
+  SettlementFailedError,
+  type PaymentSource,
+} from '../lib/settlement.js';
+import { runPaidExecution } from '../lib/paid-execution.js';
+import { sendPoolSaturated } from '../middleware/capacity.js';
+import { runtimeRegistry, type LogEntry } from '../lib/runtimes/index.js';
 import { z } from 'zod';
 
+// Keeps idle streams open through proxies while code runs silently
+const STREAM_HEARTBEAT_MS = 15000;
+
 const ExecuteRequestSchema = z.object({
   code: z.string().min(1, 'Code cannot be empty').max(10000, 'Code too large'),
-  language: z.enum(['javascript', 'python']),
+  language: z.string().refine((language) => runtimeRegistry.has(language), (language) => ({
+    message: `Unsupported language ${language}; expected one of ${runtimeRegistry.languages().join(', ')}`,
+  })),
   tier: z.enum(['basic', 'standard', 'premium']),
   timeout: z.number().optional(),
+  input: z.object({
+    data: z.unknown().optional(),
+    stdin: z.string().optional(),
+  }).optional(),
+  deterministic: z.object({
+    seed: z.number().int(),
+    startTime: z.number().int().nonnegative().optional(),
+  }).optional(),
+  async: z.boolean().optional(),
+  callbackUrl: z.string().url().refine((url) => /^https?:\/\//.test(url), 'Callback URL must be http(s)').optional(),
+}).refine((body) => !body.callbackUrl || body.async, {
+  message: 'callbackUrl requires async mode',
+  path: ['callbackUrl'],
 });
 
-export async function executeHandler(req: X402Request, res: Response) {
+type StreamFormat = 'sse' | 'ndjson';
+
+/**
+ * Event pushed to streaming clients
+ */
+type StreamEvent =
+  | { type: 'log'; entry: LogEntry }
+  | { type: 'result'; response: ReturnType<typeof toExecuteResponse> }
+  | { type: 'error'; message: string }
+  | { type: 'ping' };
+
+/**
+ * Streaming format requested through the Accept header, if any
+ */
+function streamFormat(req: X402Request): StreamFormat | undefined {
+  const accept = req.headers.accept ?? '';
+  if (accept.includes('text/event-stream')) return 'sse';
+  if (accept.includes('application/x-ndjson')) return 'ndjson';
+  return undefined;
+}
+
+/**
+ * Write one event as an SSE message or an NDJSON line
+ */
+function writeEvent(res: Response, format: StreamFormat, event: StreamEvent): void {
+  if (res.writableEnded) return;
+
+  if (format === 'ndjson') {
+    const line = event.type === 'log' ? { type: 'log', ...event.entry }
+      : event.type === 'result' ? { type: 'result', ...event.response }
+      : event;
+    res.write(JSON.stringify(line) + '\n');
+    return;
+  }
+
+  if (event.type === 'ping') {
+    res.write(': ping\n\n');
+    return;
+  }
+
+  const data = event.type === 'log' ? event.entry
+    : event.type === 'result' ? event.response
+    : { message: event.message };
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Response body for an execution queued in async mode
+ */
+export interface AsyncExecuteResponse {
+  jobId: string;
+  status: JobStatus;
+  statusUrl: string;
+  callbackUrl?: string;
+  payment: ExecutionPayment;
+  timestamp: number;
+}
+
+/**
+ * Response body for a finished execution
+ */
+export type ExecuteResponse = ReturnType<typeof toExecuteResponse>;
+
+function toExecuteResponse(result: ExecutionResult, payment: ExecutionPayment) {
+  return {
+    success: result.success,
+    output: result.output,
+    logs: result.logs,
+    result: result.result,
+    error: result.error,
+    diagnostics: result.diagnostics,
+    executionTime: result.executionTime,
+    memoryUsed: result.memoryUsed,
+    metrics: result.metrics,
+    executionId: result.executionId,
+    tier: result.tier,
+    deterministic: result.deterministic,
+    proof: result.proof,
+    signedProof: result.signedProof,
+    payment,
+    timestamp: Date.now(),
+  };
+}
+
+export async function executeHandler(req: AccountRequest, res: Response) {
+  const format = streamFormat(req);
+  let source: PaymentSource | undefined;
+
   try {
     const validation = ExecuteRequestSchema.safeParse(req.body);
 
@@ -23,51 +145,153 @@ export async function executeHandler(req: X402Request, res: Response) {
       });
     }
 
-    const { code, language, tier, timeout } = validation.data;
+    const { code, language, tier, timeout, input, deterministic, callbackUrl } = validation.data;
 
-    if (!req.x402Payment?.verified) {
+    // Refused before anything is held, so a rejected callback costs nothing
+    if (callbackUrl) {
+      try {
+        await checkCallbackUrl(callbackUrl);
+      } catch (error) {
+        if (!(error instanceof CallbackUrlError)) throw error;
+        return res.status(400).json({
+          error: 'Invalid Request',
+          message: error.message,
+        });
+      }
+    }
+
+    // Paid per call via x402, or from the caller's prepaid credit
+    const x402Payment = req.x402Payment?.verified ? req.x402Payment : undefined;
+    if (x402Payment?.authorization) {
+      source = { type: 'x402', authorization: x402Payment.authorization };
+    } else if (req.account) {
+      source = { type: 'credit', hold: accountManager.hold(req.account.accountId, pricingEngine.maxCharge(tier)) };
+    } else {
       return res.status(500).json({
         error: 'Internal Server Error',
         message: 'Payment verification state invalid',
       });
     }
+    const payer = x402Payment?.payer ?? req.account?.owner;
 
-    console.log(`🔒 Executing ${language} code for ${req.x402Payment.payer} (tier: ${tier})`);
-    
     const executionRequest: ExecutionRequest = {
       code,
       language,
       tier,
       timeout,
+      input,
+      deterministic,
     };
 
-    const result = await sandboxExecutor.execute(executionRequest);
-
-    const response = {
-      success: result.success,
-      output: result.output,
-      error: result.error,
-      executionTime: result.executionTime,
-      memoryUsed: result.memoryUsed,
-      executionId: result.executionId,
-      tier: result.tier,
-      proof: result.proof,
-      payment: {
-        amount: req.x402Payment.amount,
-        payer: req.x402Payment.payer,
-        transactionHash: req.x402Payment.transactionHash,
-        network: CONFIG.network.name,
-        token: CONFIG.x402.paymentToken,
-      },
-      timestamp: Date.now(),
+    // Authorized up front; the charge is filled in from measured usage
+    const authorization: ExecutionPayment = {
+      amount: 0,
+      maxAmount: source.type === 'credit' ? source.hold.amount : x402Payment!.amount,
+      payer,
+      transactionHash: x402Payment?.transactionHash,
+      accountId: source.type === 'credit' ? req.account!.accountId : undefined,
+      network: x402Payment?.network ?? CONFIG.network.name,
+      token: CONFIG.x402.paymentToken,
     };
 
+    // Async mode: queue the execution and answer immediately
+    if (validation.data.async) {
+      const job = jobQueue.submit(executionRequest, authorization, source, callbackUrl);
+      source = undefined; // the job settles or releases it now
+      console.log(`📥 Queued ${language} job ${job.jobId} for ${payer} (tier: ${tier})`);
+
+      const accepted: AsyncExecuteResponse = {
+        jobId: job.jobId,
+        status: job.status,
+        statusUrl: `/api/jobs/${job.jobId}`,
+        callbackUrl,
+        payment: authorization,
+        timestamp: Date.now(),
+      };
+      res.setHeader('Location', accepted.statusUrl);
+      return res.status(202).json(accepted);
+    }
+
+    console.log(`🔒 Executing ${language} code for ${payer} (tier: ${tier})`);
+
+    // Streaming mode: push each log line as it is written, then the full result
+    if (format) {
+      // Lines leave before the run ends, so x402 streams are paid into credit before it starts
+      const prepaid = source.type === 'x402' ? await prepayExecution(authorization, source) : undefined;
+      const paying = prepaid?.source ?? source;
+      source = undefined; // settled or released by the run from here
+
+      res.status(200);
+      if (prepaid) {
+        res.setHeader('X-Payment-Response', paymentResponseHeader(prepaid.payment));
+      }
+      res.setHeader('Content-Type', format === 'sse' ? 'text/event-stream' : 'application/x-ndjson');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.flushHeaders();
+
+      const heartbeat = setInterval(() => writeEvent(res, format, { type: 'ping' }), STREAM_HEARTBEAT_MS);
+      try {
+        const { result, payment } = await runPaidExecution(executionRequest, prepaid?.payment ?? authorization, paying, {
+          onLog: (entry) => writeEvent(res, format, { type: 'log', entry }),
+          waitForSlot: Boolean(prepaid), // already paid for, so wait rather than refuse
+        });
+
+        writeEvent(res, format, { type: 'result', response: toExecuteResponse(result, payment) });
+        console.log(`✅ Execution ${result.executionId} streamed in ${result.executionTime}ms`);
+      } finally {
+        clearInterval(heartbeat);
+      }
+      return res.end();
+    }
+
+    // Collect only what was used, and keep a record for lookups and disputed charges
+    const paying = source;
+    source = undefined; // settled or released by the run from here
+    const { result, payment } = await runPaidExecution(executionRequest, authorization, paying);
+    res.setHeader('X-Payment-Response', paymentResponseHeader(payment));
+
+    const response = toExecuteResponse(result, payment);
+
     console.log(`✅ Execution ${result.executionId} completed in ${result.executionTime}ms`);
 
     res.json(response);
 
   } catch (error: any) {
+    // Nothing ran: give back the credit or authorization reserved for it
+    if (source) {
+      await releasePayment(source);
+    }
+
+    if (error instanceof InsufficientCreditError) {
+      return res.status(402).json({
+        error: 'Insufficient Credit',
+        message: error.message,
+        details: { available: error.available, required: error.required },
+      });
+    }
+
+    if (error instanceof PoolSaturatedError && !res.headersSent) {
+      return sendPoolSaturated(res, error);
+    }
+
+    if (error instanceof SettlementFailedError && !res.headersSent) {
+      res.setHeader('X-Payment-Response', paymentResponseHeader(error.payment));
+      return res.status(402).json({
+        error: 'Settlement Failed',
+        message: error.message,
+        details: { executionId: error.executionId, payment: error.payment },
+      });
+    }
+
     console.error('Execute endpoint error:', error);
+
+    // Once a stream has started, the status line is gone; report in-band
+    if (res.headersSent && format) {
+      writeEvent(res, format, { type: 'error', message: error.message || 'An error occurred during execution' });
+      return res.end();
+    }
+
     res.status(500).json({
       error: 'Execution Failed',
       message: error.message || 'An error occurred during execution',
@@ -76,64 +300,5 @@ export async function executeHandler(req: X402Request, res: Response) {
 }
 
 export function executeInfoHandler(req: X402Request, res: Response) {
-  res.status(402).json({
-    x402Version: 1,
-    accepts: [
-      {
-        scheme: "exact",
-        network: "base",
-        maxAmountRequired: "20000",
-        resource: "https://lucid-sandbox-agent-production.up.railway.app/api/execute",
-        description: "Execute JavaScript code in secure sandbox",
-        mimeType: "application/json",
-        payTo: "0x11c24Fbcd702cd611729F8402d8fB51ECa75Ba83",
-        maxTimeoutSeconds: 60,
-        asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-        outputSchema: {
-          input: {
-            type: "http",
-            method: "POST",
-            bodyType: "json",
-            bodyFields: {
-              code: {
-                type: "string",
-                required: true,
-                description: "JavaScript code to execute",
-                enum: undefined
-              },
-              language: {
-                type: "string",
-                required: true,
-                description: "Programming language",
-                enum: ["javascript", "python"]
-              },
-              tier: {
-                type: "string",
-                required: true,
-                description: "Execution tier",
-                enum: ["basic", "standard", "premium"]
-              }
-            }
-          },
-          output: {
-            type: "object",
-            properties: {
-              success: { 
-                type: "boolean",
-                description: "Execution success status"
-              },
-              output: { 
-                type: "string",
-                description: "Console output"
-              },
-              executionTime: { 
-                type: "number",
-                description: "Execution time in ms"
-              }
-            }
-          }
-        }
-      }
-    ]
-  });
+  res.status(402).json(createPaymentRequired(req, 'Execute code in secure sandbox'));
 }
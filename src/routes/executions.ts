@@ -0,0 +1,115 @@
+/**
+ * Execution History Endpoints
+ *
+ * GET /api/executions/:id
+ * Returns a recorded execution with its proof and payment to the API key
+ * of the payer; anyone else gets only its signed proof
+ *
+ * GET /api/executions?limit=20&cursor=...
+ * Lists the executions of the API key's owner, newest first, for
+ * reconciling charges (API key required)
+ */
+
+import type { Response } from 'express';
+import { z } from 'zod';
+import { executionStore, isSamePayer, type ExecutionRecord } from '../lib/history.js';
+import type { AccountRequest } from '../middleware/accounts.js';
+
+// EVM address, or base58 Solana public key
+const PAYER_ADDRESS = /^(0x[0-9a-fA-F]{40}|[1-9A-HJ-NP-Za-km-z]{32,44})$/;
+
+const ListExecutionsQuerySchema = z.object({
+  payer: z.string().regex(PAYER_ADDRESS, 'Payer must be an EVM or Solana address').optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+/**
+ * What is shown of an execution without its payer's API key: enough to
+ * check its proof, nothing of its code, input, output or payment
+ */
+export type ExecutionProofView = Pick<
+  ExecutionRecord,
+  'executionId' | 'language' | 'tier' | 'success' | 'proof' | 'signedProof' | 'createdAt'
+>;
+
+/**
+ * Whether the request carries the API key of the execution's payer
+ */
+function isOwnedBy(record: ExecutionRecord, req: AccountRequest): boolean {
+  const payer = record.payment.payer;
+  return Boolean(req.account && payer && isSamePayer(payer, req.account.owner));
+}
+
+export async function executionHandler(req: AccountRequest, res: Response) {
+  try {
+    const record = await executionStore.get(req.params.id);
+
+    if (!record) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: `Execution ${req.params.id} not found`,
+      });
+    }
+
+    if (isOwnedBy(record, req)) {
+      return res.json(record);
+    }
+
+    const view: ExecutionProofView = {
+      executionId: record.executionId,
+      language: record.language,
+      tier: record.tier,
+      success: record.success,
+      proof: record.proof,
+      signedProof: record.signedProof,
+      createdAt: record.createdAt,
+    };
+    res.json(view);
+
+  } catch (error: any) {
+    console.error('Execution lookup error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to retrieve execution',
+    });
+  }
+}
+
+export async function executionListHandler(req: AccountRequest, res: Response) {
+  try {
+    const validation = ListExecutionsQuerySchema.safeParse(req.query);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid Request',
+        message: 'Query validation failed',
+        details: validation.error.issues,
+      });
+    }
+
+    // The API key is the proof of ownership: only its owner's executions are listed
+    const owner = req.account!.owner;
+    const { payer = owner, limit, cursor } = validation.data;
+    if (!isSamePayer(payer, owner)) {
+      return res.status(403).json({
+        error: 'Forbidden',
+        message: 'Executions can only be listed for the payer that owns the API key',
+      });
+    }
+
+    const page = await executionStore.listByPayer(payer, { limit, cursor });
+
+    res.json({
+      payer,
+      ...page,
+    });
+
+  } catch (error: any) {
+    console.error('Execution listing error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to list executions',
+    });
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Job Status Endpoint
+ *
+ * GET /api/jobs/:id
+ * Returns the status of an async execution job, with its result once finished
+ */
+
+import type { Request, Response } from 'express';
+import { jobQueue, type Job } from '../lib/jobs.js';
+
+/**
+ * Job status response body
+ */
+export type JobResponse = Job & {
+  queuePosition?: number; // while queued
+  timestamp: number;
+};
+
+export function jobHandler(req: Request, res: Response) {
+  try {
+    const job = jobQueue.get(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: `Job ${req.params.id} not found or expired`,
+      });
+    }
+
+    // Suggest a polling interval while the job is unfinished
+    if (job.status === 'queued' || job.status === 'running') {
+      res.setHeader('Retry-After', '1');
+    }
+
+    const response: JobResponse = {
+      ...job,
+      queuePosition: job.status === 'queued' ? jobQueue.position(job.jobId) : undefined,
+      timestamp: Date.now(),
+    };
+    res.json(response);
+
+  } catch (error: any) {
+    console.error('Job status error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to retrieve job',
+    });
+  }
+}
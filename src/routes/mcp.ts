@@ -0,0 +1,51 @@
+/**
+ * MCP Endpoint
+ *
+ * POST /mcp
+ * MCP over streamable HTTP, stateless: every request gets its own server.
+ * The caller's API key, if any, pays for executions it forwards no
+ * payment for; an X-PAYMENT header pays for a single execute_code call.
+ */
+
+import type { Response } from 'express';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { createMcpServer } from '../mcp/server.js';
+import type { AccountRequest } from '../middleware/accounts.js';
+
+export async function mcpHandler(req: AccountRequest, res: Response) {
+  const server = createMcpServer({ account: req.account });
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: undefined,
+    enableJsonResponse: true,
+  });
+
+  res.on('close', () => {
+    transport.close();
+    server.close();
+  });
+
+  try {
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  } catch (error: any) {
+    console.error('MCP request error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        jsonrpc: '2.0',
+        error: { code: -32603, message: error.message || 'Internal server error' },
+        id: null,
+      });
+    }
+  }
+}
+
+/**
+ * GET and DELETE /mcp: no sessions or server-initiated streams
+ */
+export function mcpMethodNotAllowed(_req: AccountRequest, res: Response) {
+  res.status(405).set('Allow', 'POST').json({
+    jsonrpc: '2.0',
+    error: { code: -32000, message: 'Method not allowed; this MCP endpoint is stateless' },
+    id: null,
+  });
+}
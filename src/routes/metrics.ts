@@ -0,0 +1,33 @@
+/**
+ * Metrics Endpoint
+ *
+ * GET /api/metrics
+ * Returns execution pool load, queue depths and warm isolates
+ * This is a free endpoint for monitoring and client backoff
+ */
+
+import type { Request, Response } from 'express';
+import { executionPool } from '../lib/pool.js';
+import { jobQueue } from '../lib/jobs.js';
+import { warmIsolates } from '../lib/runtimes/index.js';
+
+export function metricsHandler(req: Request, res: Response) {
+  try {
+    res.setHeader('Cache-Control', 'no-store');
+    res.json({
+      pool: executionPool.stats(),
+      jobs: {
+        queued: jobQueue.depth,
+      },
+      warmIsolates: warmIsolates.available,
+      timestamp: Date.now(),
+    });
+
+  } catch (error) {
+    console.error('Metrics endpoint error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to retrieve metrics',
+    });
+  }
+}
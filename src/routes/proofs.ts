@@ -0,0 +1,70 @@
+/**
+ * Proof Verification Endpoint
+ *
+ * POST /api/proofs/verify
+ * Checks the signature on an execution proof and, when the original
+ * code, input or outcome are supplied, the hashes the proof commits to.
+ * This is a free endpoint so downstream clients can verify results themselves.
+ */
+
+import type { Request, Response } from 'express';
+import { z } from 'zod';
+import { sandboxExecutor } from '../lib/sandbox.js';
+import type { ProofArtifacts, SignedProof } from '../lib/proofs.js';
+
+const HEX = /^0x[0-9a-fA-F]*$/;
+
+const VerifyProofRequestSchema = z.object({
+  // Envelope fields are kept verbatim: the digest covers every one of them
+  proof: z.object({
+    envelope: z.record(z.string(), z.unknown()),
+    digest: z.string().regex(HEX, 'Digest must be 0x-prefixed hex'),
+    signature: z.string().regex(HEX, 'Signature must be 0x-prefixed hex'),
+  }),
+  code: z.string().optional(),
+  input: z.object({
+    data: z.unknown().optional(),
+    stdin: z.string().optional(),
+  }).optional(),
+  output: z.string().optional(),
+  result: z.unknown().optional(),
+  error: z.string().optional(),
+});
+
+export async function proofVerifyHandler(req: Request, res: Response) {
+  try {
+    const validation = VerifyProofRequestSchema.safeParse(req.body);
+
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid Request',
+        message: 'Request validation failed',
+        details: validation.error.issues,
+      });
+    }
+
+    const { proof, code, input, output, result, error } = validation.data;
+
+    // The outcome hash covers output, result and error together
+    const artifacts: ProofArtifacts = {
+      code,
+      input,
+      outcome: output !== undefined ? { output, result, error } : undefined,
+    };
+
+    const verification = await sandboxExecutor.verifyProof(proof as unknown as SignedProof, artifacts);
+
+    res.json({
+      ...verification,
+      executionId: proof.envelope.executionId,
+      timestamp: Date.now(),
+    });
+
+  } catch (error: any) {
+    console.error('Proof verify endpoint error:', error);
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: error.message || 'Failed to verify proof',
+    });
+  }
+}
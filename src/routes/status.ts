@@ -8,6 +8,9 @@
 
 import type { Request, Response } from 'express';
 import { CONFIG } from '../lib/config.js';
+import { runtimeRegistry, CAPABILITIES } from '../lib/runtimes/index.js';
+import { TIER_LIMITS } from '../lib/sandbox.js';
+import { paymentNetworks } from '../lib/networks/index.js';
 
 export async function statusHandler(req: Request, res: Response) {
   try {
@@ -35,35 +38,50 @@ export async function statusHandler(req: Request, res: Response) {
           ethereum: CONFIG.wallets.ethereum,
           solana: CONFIG.wallets.solana,
         },
+        profile: CONFIG.networks.profile,
+        acceptedNetworks: paymentNetworks.describe(),
       },
 
       // Execution capabilities
       capabilities: {
-        languages: CONFIG.sandbox.allowedLanguages,
+        languages: runtimeRegistry.languages(),
+        runtimes: runtimeRegistry.describe(),
         maxExecutionTime: CONFIG.sandbox.maxExecutionTime,
         maxMemory: CONFIG.sandbox.maxMemory,
+        features: CAPABILITIES,
       },
 
       // Pricing tiers
       pricing: {
         basic: {
-          price: CONFIG.pricing.basic,
-          timeout: 10000,
-          memory: 64,
+          price: CONFIG.pricing.basic, // moved in full over x402; credit is charged usage up to it
+          baseFee: CONFIG.metering.baseFee.basic,
+          timeout: TIER_LIMITS.basic.timeout,
+          memory: TIER_LIMITS.basic.memory,
+          capabilities: TIER_LIMITS.basic.capabilities,
           description: 'Basic execution with 10s timeout',
         },
         standard: {
-          price: CONFIG.pricing.standard,
-          timeout: 30000,
-          memory: 128,
+          price: CONFIG.pricing.standard, // moved in full over x402; credit is charged usage up to it
+          baseFee: CONFIG.metering.baseFee.standard,
+          timeout: TIER_LIMITS.standard.timeout,
+          memory: TIER_LIMITS.standard.memory,
+          capabilities: TIER_LIMITS.standard.capabilities,
           description: 'Standard execution with 30s timeout',
         },
         premium: {
-          price: CONFIG.pricing.premium,
-          timeout: 60000,
-          memory: 256,
+          price: CONFIG.pricing.premium, // moved in full over x402; credit is charged usage up to it
+          baseFee: CONFIG.metering.baseFee.premium,
+          timeout: TIER_LIMITS.premium.timeout,
+          memory: TIER_LIMITS.premium.memory,
+          capabilities: TIER_LIMITS.premium.capabilities,
           description: 'Premium execution with 60s timeout and proofs',
         },
+        metering: {
+          appliesTo: ['x402', 'credit'],
+          cpuPerSecond: CONFIG.metering.cpuPerSecond,
+          memoryPerGBSecond: CONFIG.metering.memoryPerGBSecond,
+        },
       },
 
       // Available endpoints
@@ -86,6 +104,54 @@ export async function statusHandler(req: Request, res: Response) {
           cost: 0,
           description: 'Verify agent wallet addresses',
         },
+        verifyProof: {
+          path: '/api/proofs/verify',
+          method: 'POST',
+          cost: 0,
+          description: 'Verify the signature and hashes of an execution proof',
+        },
+        executions: {
+          path: '/api/executions/:id',
+          method: 'GET',
+          cost: 0,
+          description: 'Look up a recorded execution (its proof only without the payer\'s API key); without an ID, list the API key owner\'s',
+        },
+        jobs: {
+          path: '/api/jobs/:id',
+          method: 'GET',
+          cost: 0,
+          description: 'Poll an async execution job',
+        },
+        metrics: {
+          path: '/api/metrics',
+          method: 'GET',
+          cost: 0,
+          description: 'Execution pool load and queue depths',
+        },
+        deposit: {
+          path: '/api/account/deposit',
+          method: 'POST',
+          cost: CONFIG.accounts.minDeposit, // minimum; credited in full
+          description: 'Deposit prepaid credit via x402; returns an API key on the first deposit',
+        },
+        account: {
+          path: '/api/account',
+          method: 'GET',
+          cost: 0,
+          description: 'Balance and transaction history for an API key',
+        },
+        agent: {
+          path: '/api/agent',
+          method: 'POST',
+          cost: 'variable',
+          description: 'Solve a task in natural language, paying each execution from prepaid credit',
+        },
+        manifest: {
+          path: '/.well-known/agent.json',
+          method: 'GET',
+          cost: 0,
+          description: 'Agent manifest with entrypoints and prices',
+        },
       },
 
       // Timestamps
@@ -8,6 +8,8 @@
 
 import type { Request, Response } from 'express';
 import { CONFIG } from '../lib/config.js';
+import { proofSigner } from '../lib/proofs.js';
+import { paymentNetworks } from '../lib/networks/index.js';
 
 export async function verifyHandler(req: Request, res: Response) {
   try {
@@ -38,7 +40,7 @@ export async function verifyHandler(req: Request, res: Response) {
           address: CONFIG.wallets.solana,
           network: 'Solana Mainnet',
           primary: false,
-          description: 'Solana address for future multi-chain support',
+          description: 'Solana address receiving USDC payments',
         },
       },
 
@@ -48,6 +50,15 @@ export async function verifyHandler(req: Request, res: Response) {
         tokenAddress: CONFIG.network.usdcAddress,
         facilitator: CONFIG.x402.facilitatorName,
         network: CONFIG.network.name,
+        // Every network a 402 response offers
+        acceptedNetworks: paymentNetworks.describe(),
+      },
+
+      // Key that signs execution proofs
+      proofs: {
+        signer: proofSigner.address,
+        scheme: 'eip191-sha256',
+        verifyEndpoint: 'POST /api/proofs/verify',
       },
 
       // Trust indicators
@@ -70,7 +81,7 @@ export async function verifyHandler(req: Request, res: Response) {
       // Service guarantees
       guarantees: {
         sandboxIsolation: true,
-        noDataRetention: true,
+        noDataRetention: false, // executions are recorded for /api/executions
         deterministicExecution: true,
         cryptographicProofs: true,
       },
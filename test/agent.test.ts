@@ -0,0 +1,133 @@
+import './setup.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { streamText, wrapLanguageModel } from 'ai';
+import { MockLanguageModelV1, simulateReadableStream } from 'ai/test';
+import { createSandboxAgent, dropInvalidActionCalls, executeCodeAction, runSandboxTask } from '../src/agent/index.js';
+import { accountManager, type Account } from '../src/lib/accounts.js';
+
+/**
+ * Model streaming one scripted response per call, in small chunks so tags
+ * are split across them; the last response repeats
+ */
+function scriptedModel(responses: string[]) {
+  const prompts: string[] = [];
+  const model = new MockLanguageModelV1({
+    doStream: async ({ prompt }) => {
+      prompts.push(JSON.stringify(prompt));
+      const text = responses[Math.min(prompts.length - 1, responses.length - 1)];
+      return {
+        stream: simulateReadableStream({
+          chunks: [
+            ...text.match(/[\s\S]{1,5}/g)!.map((textDelta) => ({ type: 'text-delta' as const, textDelta })),
+            { type: 'finish' as const, finishReason: 'stop' as const, usage: { promptTokens: 0, completionTokens: 0 } },
+          ],
+        }),
+        rawCall: { rawPrompt: null, rawSettings: {} },
+      };
+    },
+  });
+  return { model, prompts };
+}
+
+const executeCall = (data: unknown) =>
+  `<action_call name="execute_code">${typeof data === 'string' ? data : JSON.stringify(data)}</action_call>`;
+
+const reply = (text: string) => `Done.</think><output type="sandbox:reply">${text}</output>`;
+
+describe('sandbox agent with a mock model', () => {
+  let account: Account;
+  const rejections: unknown[] = [];
+  const onRejection = (reason: unknown) => rejections.push(reason);
+
+  before(async () => {
+    ({ account } = await accountManager.open('0x6666666666666666666666666666666666666666'));
+    await accountManager.deposit(account.accountId, 1);
+    process.on('unhandledRejection', onRejection);
+  });
+
+  after(() => {
+    process.off('unhandledRejection', onRejection);
+  });
+
+  it('runs code paid from credit and replies with its output', async () => {
+    const { model, prompts } = scriptedModel([
+      `Let me compute it.</think>${executeCall({ code: 'console.log(6 * 7)' })}`,
+      reply('The answer is 42'),
+    ]);
+    const spent = accountManager.summarize(account).spent;
+
+    const run = await runSandboxTask(createSandboxAgent({ model }), 'What is 6 * 7?', account);
+
+    assert.equal(run.reply, 'The answer is 42');
+    assert.equal(run.executions.length, 1);
+    assert.equal(run.executions[0].output, '42');
+    assert.equal(run.executions[0].payment?.accountId, account.accountId);
+    assert.equal(run.executions[0].payment?.settlement?.status, 'settled');
+    assert.equal(accountManager.summarize(account).spent, spent + run.executions[0].payment!.amount);
+    assert.match(prompts[1], /\\"output\\":\\"42\\"/);
+  });
+
+  it('drops calls to unknown actions and malformed calls', async () => {
+    const { model } = scriptedModel([
+      '</think><action_call name="delete_everything">{}</action_call>' +
+        executeCall('{"code": ') +
+        executeCall({ code: 42 }) +
+        executeCall({ code: 'console.log("ok")' }),
+      reply('ok'),
+    ]);
+
+    const run = await runSandboxTask(createSandboxAgent({ model }), 'Say ok', account);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.deepEqual(run.executions.map((execution) => execution.output), ['ok']);
+    assert.equal(run.reply, 'ok');
+    assert.deepEqual(rejections, []);
+  });
+
+  it('reports invalid arguments and missing credit back to the model', async () => {
+    const { account: empty } = await accountManager.open('0x7777777777777777777777777777777777777777');
+    const { model } = scriptedModel([
+      `</think>${executeCall({ code: '1', language: 'cobol' })}${executeCall({ code: '1' })}`,
+      reply('Could not run it'),
+    ]);
+
+    const run = await runSandboxTask(createSandboxAgent({ model }), 'Run 1', empty);
+
+    const errors = run.executions.map((execution) => execution.error).sort();
+    assert.match(errors[0]!, /^Insufficient credit/);
+    assert.match(errors[1]!, /^Unsupported language cobol/);
+    assert.equal(accountManager.summarize(empty).spent, 0);
+    assert.equal(accountManager.summarize(empty).held, 0);
+  });
+});
+
+describe('dropInvalidActionCalls', () => {
+  async function filtered(text: string) {
+    const { model } = scriptedModel([text]);
+    const { textStream } = streamText({
+      model: wrapLanguageModel({ model, middleware: dropInvalidActionCalls([executeCodeAction]) }),
+      prompt: 'test',
+    });
+
+    let received = '';
+    for await (const delta of textStream) {
+      received += delta;
+    }
+    return received;
+  }
+
+  it('passes text and valid calls through unchanged', async () => {
+    const text = `a < b, and <action_ca is not a tag. ${executeCall({ code: '1' })} Then <output type="x">y</output>`;
+
+    assert.equal(await filtered(text), text);
+  });
+
+  it('drops invalid and unfinished calls', async () => {
+    assert.equal(
+      await filtered(`before ${executeCall({ tier: 'basic' })}after ${executeCall('{"code": "1"')}`),
+      'before after '
+    );
+    assert.equal(await filtered(`x ${executeCall({ code: '1' }).slice(0, -3)}`), 'x ');
+  });
+});
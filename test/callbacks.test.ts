@@ -0,0 +1,113 @@
+import './setup.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { app } from '../src/app.js';
+import { accountManager } from '../src/lib/accounts.js';
+import { checkCallbackUrl, CallbackUrlError, isNonPublicAddress, postCallback } from '../src/lib/callbacks.js';
+
+describe('callback URL checks', () => {
+  it('refuses loopback, private, link-local and reserved addresses', () => {
+    for (const address of [
+      '127.0.0.2', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254',
+      '100.64.0.1', '0.0.0.0', '224.0.0.1', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1',
+    ]) {
+      assert.equal(isNonPublicAddress(address), true, address);
+    }
+  });
+
+  it('accepts public addresses', () => {
+    for (const address of ['8.8.8.8', '1.1.1.1', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+      assert.equal(isNonPublicAddress(address), false, address);
+    }
+  });
+
+  it('rejects URLs whose host resolves to a non-public address', async () => {
+    for (const url of [
+      'http://localhost:3000/hook',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://[::1]/hook',
+      'http://0x7f000002/hook', // 127.0.0.2 in hex
+    ]) {
+      await assert.rejects(checkCallbackUrl(url), CallbackUrlError, url);
+    }
+  });
+
+  it('accepts public IP literals and allowlisted hosts', async () => {
+    await checkCallbackUrl('https://8.8.8.8/hook');
+    await checkCallbackUrl('http://127.0.0.1:9/hook');
+  });
+});
+
+describe('callback delivery', () => {
+  let receiver: Server;
+  let port: number;
+  const received: string[] = [];
+
+  before(async () => {
+    receiver = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => { body += chunk; });
+      req.on('end', () => {
+        received.push(body);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, '127.0.0.1', resolve));
+    port = (receiver.address() as AddressInfo).port;
+  });
+
+  after(() => {
+    receiver.close();
+  });
+
+  it('delivers to an allowlisted host', async () => {
+    const status = await postCallback(`http://127.0.0.1:${port}/hook`, { 'Content-Type': 'application/json' }, '{"ok":true}', 5000);
+    assert.equal(status, 200);
+    assert.deepEqual(received, ['{"ok":true}']);
+  });
+
+  it('refuses a host that resolves to loopback', async () => {
+    await assert.rejects(
+      postCallback(`http://localhost:${port}/hook`, {}, '{}', 5000),
+      CallbackUrlError
+    );
+    assert.equal(received.length, 1);
+  });
+});
+
+describe('POST /api/execute callbackUrl', () => {
+  let server: Server;
+  let baseUrl: string;
+  let apiKey: string;
+
+  before(async () => {
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    ({ apiKey } = await accountManager.open('0x3333333333333333333333333333333333333333'));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('rejects a private callback before holding credit', async () => {
+    const response = await fetch(`${baseUrl}/api/execute`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+      body: JSON.stringify({
+        code: 'console.log(1)',
+        language: 'javascript',
+        tier: 'basic',
+        async: true,
+        callbackUrl: 'http://169.254.169.254/latest/meta-data/',
+      }),
+    });
+
+    assert.equal(response.status, 400);
+    const body = await response.json();
+    assert.equal(body.error, 'Invalid Request');
+    assert.match(body.message, /non-public address 169\.254\.169\.254/);
+  });
+});
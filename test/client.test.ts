@@ -0,0 +1,127 @@
+import './setup.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { createWalletClient, http } from 'viem';
+import { app } from '../src/app.js';
+import type { MockUsdc } from '../src/facilitator/mock-usdc.js';
+import { createSandboxClient, PaymentRejectedError, SandboxApiError } from '../src/client/index.js';
+import { createPayer, localAdapter, startFacilitator } from './payments.js';
+
+describe('SandboxClient against the agent', () => {
+  let ledger: MockUsdc;
+  let facilitator: Server;
+  let server: Server;
+  let baseUrl: string;
+
+  /**
+   * Client paying from a freshly funded wallet
+   */
+  const fundedClient = (options: { maxAmount?: number } = {}) => {
+    const payer = createPayer();
+    ledger.mint(payer.address, 5_000_000n);
+    const wallet = createWalletClient({ account: payer, transport: http(localAdapter.config.rpcUrl) });
+    return { payer, client: createSandboxClient({ baseUrl, wallet, pollIntervalMs: 50, ...options }) };
+  };
+
+  before(async () => {
+    ({ ledger, server: facilitator } = await startFacilitator());
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+    facilitator.close();
+  });
+
+  it('lists the payment options for executions', async () => {
+    const { client } = fundedClient();
+
+    const accepts = await client.paymentRequirements();
+    assert.ok(accepts.some((requirement) => requirement.network === 'local' && requirement.extra?.tier === 'basic'));
+  });
+
+  it('pays for an execution through the 402 exchange', async () => {
+    const { payer, client } = fundedClient();
+
+    const result = await client.execute('console.log(6 * 7)');
+
+    assert.equal(result.output, '42');
+    assert.equal(result.payment?.settlement?.status, 'settled');
+    assert.equal(result.paymentResponse?.status, 'settled');
+    assert.equal(result.paymentResponse?.transactionHash, result.payment?.transactionHash);
+    assert.equal(ledger.balanceOf(payer.address), 5_000_000n - 10_000n);
+    assert.equal(ledger.balanceOf(localAdapter.network.payTo) >= 10_000n, true);
+  });
+
+  it('runs an async job and polls it to completion', async () => {
+    const { client } = fundedClient();
+
+    const job = await client.executeAsync('console.log("later")', { tier: 'standard' });
+
+    assert.equal(job.status, 'completed');
+    assert.equal(job.result?.output, 'later');
+    assert.equal(job.payment.settlement?.status, 'settled');
+  });
+
+  it('deposits credit and then pays with the API key', async () => {
+    const { payer, client } = fundedClient();
+
+    const deposit = await client.deposit(1);
+    assert.ok(deposit.apiKey);
+    assert.equal(client.apiKey, deposit.apiKey);
+    assert.equal(ledger.balanceOf(payer.address), 4_000_000n);
+
+    const result = await client.execute('console.log("credit")');
+    assert.equal(result.output, 'credit');
+    assert.equal(result.paymentResponse?.transactionHash, undefined);
+    assert.equal(ledger.balanceOf(payer.address), 4_000_000n);
+
+    const { account } = await client.account();
+    assert.ok(result.payment!.amount > 0);
+    assert.equal(Math.round(account.balance * 1e6), Math.round((1 - result.payment!.amount) * 1e6));
+  });
+
+  it('signs every deposit, including those made with an API key', async () => {
+    const { payer, client } = fundedClient();
+
+    const first = await client.deposit(1);
+    const second = await client.deposit(1);
+
+    assert.equal(second.apiKey, undefined);
+    assert.equal(client.apiKey, first.apiKey);
+    assert.equal(second.account.accountId, first.account.accountId);
+    assert.equal(second.account.balance, 2);
+    assert.equal(ledger.balanceOf(payer.address), 3_000_000n);
+  });
+
+  it('refuses to sign more than maxAmount', async () => {
+    const { payer, client } = fundedClient({ maxAmount: 0.001 });
+
+    await assert.rejects(client.execute('1'), (error) => {
+      assert.ok(error instanceof PaymentRejectedError);
+      assert.ok(error.accepts.length > 0);
+      return true;
+    });
+    assert.equal(ledger.balanceOf(payer.address), 5_000_000n);
+  });
+
+  it('rejects payment when it has neither a wallet nor an API key', async () => {
+    const client = createSandboxClient({ baseUrl });
+
+    await assert.rejects(client.execute('1'), PaymentRejectedError);
+  });
+
+  it('surfaces error responses as SandboxApiError', async () => {
+    const { client } = fundedClient();
+
+    await assert.rejects(client.getJob('missing'), (error) => {
+      assert.ok(error instanceof SandboxApiError);
+      assert.equal(error.status, 404);
+      return true;
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import './setup.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { app } from '../src/app.js';
+import type { MockUsdc } from '../src/facilitator/mock-usdc.js';
+import { createPayer, localAdapter, paymentHeader, signAuthorization, startFacilitator } from './payments.js';
+
+describe('POST /api/account/deposit', () => {
+  const payer = createPayer();
+  let ledger: MockUsdc;
+  let facilitator: Server;
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    ({ ledger, server: facilitator } = await startFacilitator());
+    ledger.mint(payer.address, 10_000_000n);
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+    facilitator.close();
+  });
+
+  it('credits the whole signed value that was settled', async () => {
+    const payload = await signAuthorization(payer, { value: 3_000_000n });
+
+    const response = await fetch(`${baseUrl}/api/account/deposit`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-PAYMENT': paymentHeader(payload) },
+      body: JSON.stringify({ amount: 1 }),
+    });
+
+    assert.equal(response.status, 201);
+    const body = await response.json();
+    assert.equal(body.deposit.amount, 3);
+    assert.equal(body.account.balance, 3);
+    assert.equal(ledger.balanceOf(payer.address), 7_000_000n);
+    assert.equal(ledger.balanceOf(localAdapter.network.payTo), 3_000_000n);
+  });
+
+  it('issues the key to an account opened for x402 change on its first deposit', async () => {
+    const changed = createPayer();
+    ledger.mint(changed.address, 2_000_000n);
+
+    const execution = await fetch(`${baseUrl}/api/execute`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-PAYMENT': paymentHeader(await signAuthorization(changed, { value: 10_000n })),
+      },
+      body: JSON.stringify({ code: 'console.log(1)', language: 'javascript', tier: 'basic' }),
+    });
+    const { payment } = await execution.json();
+    const change = Math.round((0.01 - payment.amount) * 1e6) / 1e6;
+
+    const response = await fetch(`${baseUrl}/api/account/deposit`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-PAYMENT': paymentHeader(await signAuthorization(changed, { value: 1_000_000n })),
+      },
+      body: JSON.stringify({ amount: 1 }),
+    });
+
+    assert.equal(response.status, 201);
+    const body = await response.json();
+    assert.ok(body.apiKey);
+    assert.equal(body.account.accountId, payment.accountId);
+    assert.equal(body.account.balance, Math.round((1 + change) * 1e6) / 1e6);
+  });
+});
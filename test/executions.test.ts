@@ -0,0 +1,197 @@
+import './setup.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { app } from '../src/app.js';
+import { createMcpServer } from '../src/mcp/server.js';
+import { accountManager, type Account } from '../src/lib/accounts.js';
+import { FileExecutionStore, recordExecution, type ExecutionRecord } from '../src/lib/history.js';
+import { sandboxExecutor } from '../src/lib/sandbox.js';
+
+const OWNER = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+const SOLANA_PAYER = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+
+describe('execution history access', () => {
+  let server: Server;
+  let baseUrl: string;
+  let apiKey: string;
+  let solanaApiKey: string;
+  let executionId: string;
+
+  before(async () => {
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    ({ apiKey } = await accountManager.open(OWNER));
+    ({ apiKey: solanaApiKey } = await accountManager.open(SOLANA_PAYER));
+
+    const request = { code: 'console.log(1)', language: 'javascript', tier: 'basic' as const };
+    const result = await sandboxExecutor.execute(request);
+    executionId = result.executionId;
+    await recordExecution(request, result, { payer: OWNER, amount: 0.001, maxAmount: 0.01, network: 'local', token: 'USDC' });
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('refuses to list without an API key', async () => {
+    const response = await fetch(`${baseUrl}/api/executions?payer=${OWNER}`);
+
+    assert.equal(response.status, 401);
+  });
+
+  it("lists the key owner's executions", async () => {
+    const response = await fetch(`${baseUrl}/api/executions`, {
+      headers: { Authorization: `Bearer ${apiKey}` },
+    });
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(body.executions.map((e: any) => e.executionId), [executionId]);
+  });
+
+  it("refuses to list another payer's executions", async () => {
+    const response = await fetch(`${baseUrl}/api/executions?payer=${OTHER}`, {
+      headers: { Authorization: `Bearer ${apiKey}` },
+    });
+
+    assert.equal(response.status, 403);
+  });
+
+  it('returns the full record to the payer', async () => {
+    const response = await fetch(`${baseUrl}/api/executions/${executionId}`, {
+      headers: { Authorization: `Bearer ${apiKey}` },
+    });
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(body.code, 'console.log(1)');
+    assert.equal(body.payment.payer, OWNER);
+  });
+
+  it('returns only the proof without the payer\'s API key', async () => {
+    for (const headers of [{}, { 'X-API-Key': solanaApiKey }]) {
+      const response = await fetch(`${baseUrl}/api/executions/${executionId}`, { headers });
+      const body = await response.json();
+
+      assert.equal(response.status, 200);
+      assert.deepEqual(Object.keys(body).sort(), ['createdAt', 'executionId', 'language', 'proof', 'signedProof', 'success', 'tier']);
+    }
+  });
+
+  it('accepts Solana payers', async () => {
+    const response = await fetch(`${baseUrl}/api/executions?payer=${SOLANA_PAYER}`, {
+      headers: { 'X-API-Key': solanaApiKey },
+    });
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(body.payer, SOLANA_PAYER);
+    assert.deepEqual(body.executions, []);
+  });
+});
+
+describe('mcp get_execution access', () => {
+  let executionId: string;
+  let owner: Account;
+  let other: Account;
+
+  before(async () => {
+    owner = (await accountManager.open('0x3333333333333333333333333333333333333333')).account;
+    other = (await accountManager.open('0x4444444444444444444444444444444444444444')).account;
+
+    const request = { code: 'console.log(2)', language: 'javascript', tier: 'basic' as const };
+    const result = await sandboxExecutor.execute(request);
+    executionId = result.executionId;
+    await recordExecution(request, result, { payer: owner.owner, amount: 0.001, maxAmount: 0.01, network: 'local', token: 'USDC' });
+  });
+
+  async function getExecution(account?: Account) {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer({ account }).connect(serverTransport);
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    const result = await client.callTool({ name: 'get_execution', arguments: { executionId } });
+    await client.close();
+    return { isError: result.isError, body: JSON.parse((result.content as any)[0].text) };
+  }
+
+  it('returns the record to the account that paid for it', async () => {
+    const { isError, body } = await getExecution(owner);
+
+    assert.ok(!isError);
+    assert.equal(body.executionId, executionId);
+  });
+
+  it("reports another payer's execution as not found", async () => {
+    const { isError, body } = await getExecution(other);
+
+    assert.equal(isError, true);
+    assert.equal(body.error, 'Not Found');
+  });
+
+  it('needs an API key', async () => {
+    const { isError, body } = await getExecution();
+
+    assert.equal(isError, true);
+    assert.equal(body.error, 'Unauthorized');
+  });
+});
+
+describe('file execution store', () => {
+  let template: ExecutionRecord;
+
+  before(async () => {
+    const request = { code: 'console.log(3)', language: 'javascript', tier: 'basic' as const };
+    const result = await sandboxExecutor.execute(request);
+    template = {
+      ...result,
+      language: request.language,
+      code: request.code,
+      payment: { payer: OWNER, amount: 0.001, maxAmount: 0.01, network: 'local', token: 'USDC' },
+      createdAt: Date.now(),
+    };
+  });
+
+  const record = (executionId: string, payer = OWNER): ExecutionRecord =>
+    ({ ...template, executionId, payment: { ...template.payment, payer } });
+
+  it('reads records back from the file after a restart', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'history-')), 'executions.jsonl');
+    const store = new FileExecutionStore(path, 10);
+    await store.save(record('a'));
+    await store.save(record('b', OTHER));
+    await store.save({ ...record('a'), output: 'replaced' });
+
+    const reloaded = new FileExecutionStore(path, 10);
+    assert.equal((await reloaded.get('a'))?.output, 'replaced');
+    assert.equal((await reloaded.get('b'))?.payment.payer, OTHER);
+    assert.deepEqual((await reloaded.listByPayer(OWNER, { limit: 10 })).executions.map((e) => e.executionId), ['a']);
+  });
+
+  it('keeps only the newest records, in memory and on disk', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'history-')), 'executions.jsonl');
+    const store = new FileExecutionStore(path, 2);
+    for (const id of ['a', 'b', 'c', 'd', 'e']) {
+      await store.save(record(id));
+    }
+
+    assert.equal(await store.get('a'), undefined);
+    assert.equal(await store.get('c'), undefined);
+    assert.equal((await store.get('e'))?.executionId, 'e');
+    assert.deepEqual((await store.listByPayer(OWNER, { limit: 10 })).executions.map((e) => e.executionId), ['e', 'd']);
+    assert.ok(readFileSync(path, 'utf8').trim().split('\n').length <= 3);
+
+    const reloaded = new FileExecutionStore(path, 2);
+    assert.deepEqual((await reloaded.listByPayer(OWNER, { limit: 10 })).executions.map((e) => e.executionId), ['e', 'd']);
+  });
+});
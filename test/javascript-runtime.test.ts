@@ -0,0 +1,75 @@
+import './setup.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { sandboxExecutor } from '../src/lib/sandbox.js';
+
+function runJavaScript(code: string) {
+  return sandboxExecutor.execute({ code, language: 'javascript', tier: 'basic' });
+}
+
+describe('javascript completion values', () => {
+  it('awaits an async function call', async () => {
+    const result = await runJavaScript('async function f() { return 5 } f()');
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.result, 5);
+  });
+
+  it('awaits a resolved promise', async () => {
+    const result = await runJavaScript('Promise.resolve(5)');
+
+    assert.equal(result.result, 5);
+  });
+
+  it('counts result() calls made before the promise settles', async () => {
+    const result = await runJavaScript('Promise.resolve(1).then((v) => result(v + 1))');
+
+    assert.equal(result.result, 2);
+  });
+
+  it('fails the run when the promise rejects', async () => {
+    const result = await runJavaScript('Promise.reject(new Error("boom"))');
+
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'boom');
+  });
+
+  it('times out a promise that never settles', async () => {
+    const result = await runJavaScript('new Promise(() => {})');
+
+    assert.equal(result.success, false);
+    assert.match(result.error!, /Execution timeout/);
+  });
+
+  it('runs an export that follows another statement as a module', async () => {
+    const result = await runJavaScript('const x = await Promise.resolve(7); export default x');
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.result, 7);
+  });
+
+  it('runs code that only mentions import or export in strings and comments as a script', async () => {
+    const result = await runJavaScript('const s = "a; export x"; // ; import y from "z"\n1');
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.result, 1);
+  });
+});
+
+describe('javascript tier capabilities', () => {
+  it('keeps the real clock from basic tier through the Date prototype', async () => {
+    const result = await runJavaScript(`
+      const start = Date.now();
+      for (let i = 0; i < 5e6; i++);
+      result([
+        Date.prototype.constructor === Date,
+        new (Date.prototype.constructor)().getTime() === start,
+        new (new Date().constructor)().getTime() === start,
+        new (Object.getPrototypeOf(new Date()).constructor)().getTime() === start,
+      ]);
+    `);
+
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual(result.result, [true, true, true, true]);
+  });
+});
@@ -0,0 +1,82 @@
+import './setup.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { app } from '../src/app.js';
+import { accountManager, type Account } from '../src/lib/accounts.js';
+import { createMcpBridge } from '../src/mcp/bridge.js';
+
+describe('stdio MCP bridge', () => {
+  let server: Server;
+  let baseUrl: string;
+  let account: Account;
+  let apiKey: string;
+
+  /**
+   * Client connected to a bridge relaying to the agent
+   */
+  async function connect(key = apiKey) {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await (await createMcpBridge({ serverUrl: baseUrl, apiKey: key })).connect(serverTransport);
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await client.connect(clientTransport);
+    return client;
+  }
+
+  async function executeCode(client: Client, code: string) {
+    const result = await client.callTool({ name: 'execute_code', arguments: { code } });
+    return { isError: result.isError, body: JSON.parse((result.content as any)[0].text) };
+  }
+
+  before(async () => {
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    ({ account, apiKey } = await accountManager.open('0x5555555555555555555555555555555555555555'));
+    await accountManager.deposit(account.accountId, 0.015);
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it("lists the agent's tools", async () => {
+    const client = await connect();
+
+    const { tools } = await client.listTools();
+    assert.deepEqual(tools.map((tool) => tool.name).sort(), ['execute_code', 'get_execution', 'get_pricing']);
+    await client.close();
+  });
+
+  it("pays from the account's balance in the agent process", async () => {
+    const client = await connect();
+
+    const { isError, body } = await executeCode(client, 'console.log(6 * 7)');
+    assert.ok(!isError);
+    assert.equal(body.output, '42');
+    assert.equal(body.payment.accountId, account.accountId);
+    assert.equal(accountManager.summarize(account).spent, body.payment.amount);
+    await client.close();
+  });
+
+  it('sees credit held by executions the agent is running', async () => {
+    const client = await connect();
+    const hold = accountManager.hold(account.accountId, 0.01);
+
+    try {
+      const { isError, body } = await executeCode(client, '1');
+      assert.equal(isError, true);
+      assert.equal(body.error, 'Insufficient Credit');
+    } finally {
+      accountManager.release(hold);
+      await client.close();
+    }
+  });
+
+  it('refuses to start with an unknown API key', async () => {
+    await assert.rejects(createMcpBridge({ serverUrl: baseUrl, apiKey: 'lsk_unknown' }));
+  });
+});
@@ -0,0 +1,172 @@
+import './setup.js';
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { app } from '../src/app.js';
+import { accountManager } from '../src/lib/accounts.js';
+import { PoolSaturatedError } from '../src/lib/pool.js';
+import { sandboxExecutor } from '../src/lib/sandbox.js';
+import type { MockUsdc } from '../src/facilitator/mock-usdc.js';
+import type { PaymentPayload } from '../src/lib/networks/index.js';
+import { createPayer, localAdapter, paymentHeader, signAuthorization, startFacilitator } from './payments.js';
+
+const BASIC_PRICE = 10_000n; // USDC base units
+
+describe('x402 cycle on the local chain', () => {
+  const payer = createPayer();
+  let ledger: MockUsdc;
+  let facilitator: Server;
+  let server: Server;
+  let baseUrl: string;
+
+  const execute = (payload: PaymentPayload, body: Record<string, unknown>, accept?: string) =>
+    fetch(`${baseUrl}/api/execute`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-PAYMENT': paymentHeader(payload),
+        ...(accept ? { Accept: accept } : {}),
+      },
+      body: JSON.stringify({ language: 'javascript', tier: 'basic', ...body }),
+    });
+
+  before(async () => {
+    ({ ledger, server: facilitator } = await startFacilitator());
+    ledger.mint(payer.address, 1_000_000n);
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+    facilitator.close();
+  });
+
+  it('asks for payment, then signs, verifies, executes and settles', async () => {
+    const required = await fetch(`${baseUrl}/api/execute`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code: 'console.log(6 * 7)', language: 'javascript', tier: 'basic' }),
+    });
+    assert.equal(required.status, 402);
+    const { accepts } = await required.json();
+    const requirement = accepts.find((option: any) => option.network === 'local');
+    assert.equal(requirement.extra.tier, 'basic');
+    assert.equal(requirement.maxAmountRequired, BASIC_PRICE.toString());
+    assert.equal(requirement.payTo, localAdapter.network.payTo);
+
+    const payerBalance = ledger.balanceOf(payer.address);
+    const agentBalance = ledger.balanceOf(localAdapter.network.payTo);
+
+    const response = await execute(await signAuthorization(payer, { value: BASIC_PRICE }), { code: 'console.log(6 * 7)' });
+    assert.equal(response.status, 200);
+    const body = await response.json();
+
+    assert.equal(body.success, true);
+    assert.equal(body.output, '42');
+    assert.equal(body.payment.settlement.status, 'settled');
+    assert.equal(body.payment.credited, 0.01);
+    assert.equal(JSON.parse(response.headers.get('x-payment-response')!).transactionHash, body.payment.transactionHash);
+
+    assert.equal(ledger.balanceOf(payer.address), payerBalance - BASIC_PRICE);
+    assert.equal(ledger.balanceOf(localAdapter.network.payTo), agentBalance + BASIC_PRICE);
+    const status = await localAdapter.getPaymentStatus(body.payment.transactionHash);
+    assert.equal(status.confirmed, true);
+  });
+
+  it('charges the metered amount, not maxAmountRequired, and keeps the rest as credit', async () => {
+    const response = await execute(await signAuthorization(payer, { value: BASIC_PRICE }), { code: 'console.log(1)' });
+    const body = await response.json();
+    const { amount, charge } = body.payment;
+
+    assert.equal(amount, Math.round((charge.baseFee + charge.cpu + charge.memory) * 1e6) / 1e6);
+    assert.ok(amount < 0.01);
+    assert.equal(JSON.parse(response.headers.get('x-payment-response')!).amount, amount);
+
+    const account = accountManager.findByOwner(payer.address)!;
+    assert.equal(body.payment.accountId, account.accountId);
+    const [debit, deposit] = accountManager.history(account.accountId, 2).transactions;
+    assert.equal(deposit.type, 'deposit');
+    assert.equal(deposit.amount, 0.01);
+    assert.equal(deposit.transactionHash, body.payment.transactionHash);
+    assert.equal(debit.type, 'debit');
+    assert.equal(debit.amount, amount);
+    assert.equal(debit.executionId, body.executionId);
+  });
+
+  it('refuses to run twice on one authorization', async () => {
+    const payload = await signAuthorization(payer, { value: BASIC_PRICE });
+
+    assert.equal((await execute(payload, { code: '1' })).status, 200);
+    const replay = await execute(payload, { code: '1' });
+    assert.equal(replay.status, 402);
+  });
+
+  it('lets an authorization be retried when its execution never started', async () => {
+    const payload = await signAuthorization(payer, { value: BASIC_PRICE });
+
+    const saturated = mock.method(sandboxExecutor, 'execute', async () => {
+      throw new PoolSaturatedError('basic', 1);
+    });
+    try {
+      assert.equal((await execute(payload, { code: '1' })).status, 429);
+    } finally {
+      saturated.mock.restore();
+    }
+
+    const retried = await execute(payload, { code: '1' });
+    assert.equal(retried.status, 200);
+    assert.equal((await retried.json()).payment.settlement.status, 'settled');
+  });
+
+  it('leaves a failed run unsettled under the default policy', async () => {
+    const payerBalance = ledger.balanceOf(payer.address);
+
+    const response = await execute(await signAuthorization(payer, { value: BASIC_PRICE }), { code: 'throw new Error("boom")' });
+    const body = await response.json();
+
+    assert.equal(body.success, false);
+    assert.equal(body.payment.amount, 0);
+    assert.equal(body.payment.settlement.status, 'waived');
+    assert.equal(ledger.balanceOf(payer.address), payerBalance);
+  });
+
+  it('settles a stream before it starts', async () => {
+    const payerBalance = ledger.balanceOf(payer.address);
+
+    const response = await execute(
+      await signAuthorization(payer, { value: BASIC_PRICE }),
+      { code: 'console.log("a"); console.log("b")' },
+      'application/x-ndjson'
+    );
+    assert.equal(response.status, 200);
+    assert.equal(JSON.parse(response.headers.get('x-payment-response')!).status, 'settled');
+
+    const events = (await response.text()).trim().split('\n').map((line) => JSON.parse(line));
+    assert.deepEqual(events.filter((event) => event.type === 'log').map((event) => event.message), ['a', 'b']);
+    const result = events.find((event) => event.type === 'result');
+    assert.equal(result.payment.settlement.status, 'settled');
+    assert.ok(result.payment.amount > 0 && result.payment.amount < 0.01);
+    assert.equal(result.payment.credited, 0.01);
+    assert.equal(ledger.balanceOf(payer.address), payerBalance - BASIC_PRICE);
+  });
+
+  it('settles an async job once it has run', async () => {
+    const response = await execute(await signAuthorization(payer, { value: BASIC_PRICE }), { code: 'console.log("later")', async: true });
+    assert.equal(response.status, 202);
+    const { statusUrl } = await response.json();
+
+    let job: any;
+    for (let attempt = 0; attempt < 100; attempt++) {
+      job = await (await fetch(`${baseUrl}${statusUrl}`)).json();
+      if (job.status === 'completed' || job.status === 'failed') break;
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    assert.equal(job.status, 'completed');
+    assert.equal(job.result.output, 'later');
+    assert.equal(job.payment.settlement.status, 'settled');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Test Payments
+ *
+ * Payers with locally generated keys signing EIP-3009 authorizations for
+ * the local network, and the local facilitator with its mock USDC ledger
+ * served in-process, so payment flows run fully offline
+ */
+
+import type { Server } from 'node:http';
+import { generatePrivateKey, privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import { toHex, type Address, type Hex } from 'viem';
+import { CONFIG } from '../src/lib/config.js';
+import { EvmPaymentAdapter, paymentNetworks, type PaymentPayload } from '../src/lib/networks/index.js';
+import { createFacilitatorApp } from '../src/facilitator/app.js';
+import { MockUsdc } from '../src/facilitator/mock-usdc.js';
+
+export const localAdapter = paymentNetworks.get('local') as EvmPaymentAdapter;
+
+export function createPayer(): PrivateKeyAccount {
+  return privateKeyToAccount(generatePrivateKey());
+}
+
+export interface AuthorizationOptions {
+  value: bigint;          // USDC base units
+  to?: string;            // defaults to the agent's wallet
+  validAfter?: number;
+  validBefore?: number;
+}
+
+/**
+ * Sign an EIP-3009 authorization as an X-PAYMENT payload
+ */
+export async function signAuthorization(payer: PrivateKeyAccount, options: AuthorizationOptions): Promise<PaymentPayload> {
+  const now = Math.floor(Date.now() / 1000);
+  const message = {
+    from: payer.address,
+    to: (options.to ?? localAdapter.network.payTo) as Address,
+    value: options.value,
+    validAfter: BigInt(options.validAfter ?? now - 60),
+    validBefore: BigInt(options.validBefore ?? now + 300),
+    nonce: toHex(crypto.getRandomValues(new Uint8Array(32))) as Hex,
+  };
+
+  const signature = await payer.signTypedData({
+    domain: localAdapter.domain(),
+    types: {
+      TransferWithAuthorization: [
+        { name: 'from', type: 'address' },
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'validAfter', type: 'uint256' },
+        { name: 'validBefore', type: 'uint256' },
+        { name: 'nonce', type: 'bytes32' },
+      ],
+    },
+    primaryType: 'TransferWithAuthorization',
+    message,
+  });
+
+  return {
+    scheme: 'exact',
+    network: 'local',
+    signature,
+    from: message.from,
+    to: message.to,
+    value: message.value.toString(),
+    validAfter: message.validAfter.toString(),
+    validBefore: message.validBefore.toString(),
+    nonce: message.nonce,
+  };
+}
+
+/**
+ * X-PAYMENT header value for a payload
+ */
+export function paymentHeader(payload: PaymentPayload): string {
+  return JSON.stringify(payload);
+}
+
+/**
+ * Local facilitator on the port the agent is configured to use
+ *
+ * @param ledger - Mock USDC it settles on, e.g. one that fails settlements
+ */
+export async function startFacilitator(ledger = new MockUsdc(localAdapter)): Promise<{ ledger: MockUsdc; server: Server }> {
+  const app = createFacilitatorApp(ledger);
+  const server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(CONFIG.facilitator.port, '127.0.0.1', () => resolve(listening));
+  });
+  return { ledger, server };
+}
@@ -0,0 +1,63 @@
+import './setup.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { sandboxExecutor } from '../src/lib/sandbox.js';
+import { hashReproducible } from '../src/lib/proofs.js';
+
+describe('deterministic proofs', () => {
+  const request = {
+    code: 'console.log(Math.random(), Date.now()); result(Math.floor(Math.random() * 1000))',
+    language: 'javascript',
+    tier: 'standard' as const,
+    deterministic: { seed: 7 },
+  };
+
+  it('gives two runs with the same seed the same reproducible hash', async () => {
+    const first = await sandboxExecutor.execute(request);
+    const second = await sandboxExecutor.execute(request);
+
+    assert.notEqual(first.signedProof.digest, second.signedProof.digest);
+    assert.equal(first.output, second.output);
+    assert.ok(first.signedProof.envelope.reproducibleHash);
+    assert.equal(first.signedProof.envelope.reproducibleHash, second.signedProof.envelope.reproducibleHash);
+  });
+
+  it('lets anyone recompute the hash from the envelope', async () => {
+    const { signedProof } = await sandboxExecutor.execute(request);
+
+    assert.equal(hashReproducible(signedProof.envelope), signedProof.envelope.reproducibleHash);
+
+    const verification = await sandboxExecutor.verifyProof(signedProof, { code: request.code });
+    assert.equal(verification.valid, true);
+    assert.equal(verification.checks.reproducibleHash, true);
+  });
+
+  it('rejects an envelope whose reproducible hash was altered', async () => {
+    const { signedProof } = await sandboxExecutor.execute(request);
+    const envelope = { ...signedProof.envelope, reproducibleHash: '0'.repeat(64) };
+
+    const verification = await sandboxExecutor.verifyProof({ ...signedProof, envelope });
+    assert.equal(verification.valid, false);
+    assert.equal(verification.checks.reproducibleHash, false);
+  });
+
+  it('leaves it out of non-deterministic runs', async () => {
+    const { signedProof } = await sandboxExecutor.execute({ ...request, deterministic: undefined });
+
+    assert.equal(signedProof.envelope.reproducibleHash, undefined);
+  });
+
+  it('gives the same output when code reaches for the Date constructor', async () => {
+    const escape = {
+      ...request,
+      code: 'for (let i = 0; i < 5e6; i++); result(new (new Date().constructor)().getTime())',
+    };
+
+    const first = await sandboxExecutor.execute(escape);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    const second = await sandboxExecutor.execute(escape);
+
+    assert.equal(first.result, second.result);
+    assert.equal(first.signedProof.envelope.reproducibleHash, second.signedProof.envelope.reproducibleHash);
+  });
+});
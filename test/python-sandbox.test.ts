@@ -0,0 +1,129 @@
+import './setup.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { sandboxExecutor } from '../src/lib/sandbox.js';
+
+function runPython(code: string, tier: 'basic' | 'premium' = 'basic') {
+  return sandboxExecutor.execute({ code, language: 'python', tier });
+}
+
+describe('python sandbox isolation', () => {
+  it('runs ordinary code', async () => {
+    const result = await runPython('import math\nprint(math.factorial(5))\nresult([1, 2])', 'premium');
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.output, '120');
+    assert.deepEqual(result.result, [1, 2]);
+  });
+
+  it('cannot import the js module', async () => {
+    const result = await runPython('import js\nprint(js.process.env)');
+
+    assert.equal(result.success, false);
+    assert.match(result.error!, /No module named 'js'/);
+  });
+
+  it('cannot run JavaScript through pyodide.code.run_js', async () => {
+    const result = await runPython(`from pyodide.code import run_js\nrun_js("import('node:fs')")`);
+
+    assert.equal(result.success, false);
+    assert.match(result.error!, /No module named 'pyodide'/);
+  });
+
+  it('cannot import pyodide.ffi', async () => {
+    const result = await runPython('import pyodide.ffi');
+
+    assert.equal(result.success, false);
+    assert.match(result.error!, /No module named 'pyodide'/);
+  });
+
+  it('cannot start processes', async () => {
+    const result = await runPython('import os\nos.system("cat .env")');
+
+    assert.equal(result.success, false);
+    assert.match(result.error!, /PermissionError/);
+  });
+
+  it('cannot read host files through a leaked Pyodide API', async () => {
+    const result = await runPython([
+      'import gc',
+      'for o in gc.get_objects():',
+      '    if type(o).__name__ == "JsLoader":',
+      '        try:',
+      '            print(bytes(await o.jsproxy._api.loadBinaryFile("package.json"))[:20])',
+      '        except Exception as error:',
+      '            print("denied")',
+    ].join('\n'));
+
+    assert.equal(result.success, true, result.error);
+    assert.doesNotMatch(result.output, /lucid-sandbox-agent|"name"/);
+  });
+
+  it('sees only its in-memory filesystem', async () => {
+    const result = await runPython('print(open("package.json").read())');
+
+    assert.equal(result.success, false);
+    assert.match(result.error!, /FileNotFoundError/);
+  });
+});
+
+describe('python memory limit', () => {
+  it('raises MemoryError instead of growing past the tier limit', async () => {
+    const result = await runPython('b = bytearray(400 * 1024 * 1024)\nprint(len(b))');
+
+    assert.equal(result.success, false);
+    assert.match(result.error!, /MemoryError/);
+    assert.equal(result.output, '');
+    assert.ok(result.metrics.peakHeapBytes <= 64 * 1024 * 1024);
+  });
+
+  it('lets code recover from a failed allocation', async () => {
+    const result = await runPython('try:\n    b = bytearray(400 * 1024 * 1024)\nexcept MemoryError:\n    print("recovered")');
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.output, 'recovered');
+  });
+});
+
+describe('python metrics', () => {
+  it('reports CPU time rather than wall time', async () => {
+    const result = await runPython('import asyncio\nawait asyncio.sleep(1)\nprint("done")');
+
+    assert.equal(result.success, true, result.error);
+    assert.ok(result.metrics.runTimeMs >= 1000, `run time ${result.metrics.runTimeMs}ms`);
+    assert.ok(result.metrics.cpuTimeMs < 500, `CPU time ${result.metrics.cpuTimeMs}ms`);
+  });
+});
+
+describe('python deterministic mode', () => {
+  const code = [
+    'import os, random, secrets, time, uuid',
+    'print(time.gmtime(), time.localtime(), time.strftime("%Y-%m-%d %H:%M:%S"), time.ctime())',
+    'print(time.monotonic(), time.perf_counter_ns(), time.time())',
+    'print(os.urandom(8).hex(), secrets.token_hex(8), secrets.randbelow(10**9), uuid.uuid4())',
+    'print(random.random(), random.SystemRandom().random())',
+  ].join('\n');
+
+  it('reproduces clock and entropy reads for the same seed', async () => {
+    const request = { code, language: 'python', tier: 'standard' as const, deterministic: { seed: 3 } };
+
+    const first = await sandboxExecutor.execute(request);
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+    const second = await sandboxExecutor.execute(request);
+
+    assert.equal(first.success, true, first.error);
+    assert.equal(first.output, second.output);
+    assert.equal(first.signedProof.envelope.reproducibleHash, second.signedProof.envelope.reproducibleHash);
+  });
+
+  it('draws different entropy for a different seed', async () => {
+    const run = (seed: number) => sandboxExecutor.execute({
+      code: 'import os\nprint(os.urandom(8).hex())',
+      language: 'python',
+      tier: 'standard',
+      deterministic: { seed },
+    });
+
+    assert.notEqual((await run(3)).output, (await run(4)).output);
+  });
+});
@@ -0,0 +1,81 @@
+import './setup.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import { app } from '../src/app.js';
+import { executionStore } from '../src/lib/history.js';
+import { MockUsdc } from '../src/facilitator/mock-usdc.js';
+import type { PaymentPayload } from '../src/lib/networks/index.js';
+import { createPayer, localAdapter, paymentHeader, signAuthorization, startFacilitator } from './payments.js';
+
+/**
+ * Ledger whose settlements fail, e.g. because the payer moved the funds
+ * away while the code ran
+ */
+class FailingUsdc extends MockUsdc {
+  async settle(): Promise<never> {
+    throw new Error('Transfer amount exceeds balance');
+  }
+}
+
+describe('failed x402 settlement', () => {
+  const payer = createPayer();
+  const other = createPayer();
+  let facilitator: Server;
+  let server: Server;
+  let baseUrl: string;
+
+  const execute = (payload: PaymentPayload, accept?: string) => fetch(`${baseUrl}/api/execute`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-PAYMENT': paymentHeader(payload),
+      ...(accept ? { Accept: accept } : {}),
+    },
+    body: JSON.stringify({ code: 'console.log("secret"); 42', language: 'javascript', tier: 'basic' }),
+  });
+
+  before(async () => {
+    const { ledger, server: started } = await startFacilitator(new FailingUsdc(localAdapter));
+    ledger.mint(payer.address, 1_000_000n);
+    ledger.mint(other.address, 1_000_000n);
+    facilitator = started;
+
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+    facilitator.close();
+  });
+
+  it('withholds the output and records the execution without it', async () => {
+    const response = await execute(await signAuthorization(payer, { value: 10_000n }));
+
+    assert.equal(response.status, 402);
+    const body = await response.json();
+    assert.equal(body.error, 'Settlement Failed');
+    assert.equal(body.details.payment.settlement.status, 'failed');
+    assert.doesNotMatch(JSON.stringify(body), /secret/);
+
+    const record = await executionStore.get(body.details.executionId);
+    assert.ok(record);
+    assert.equal(record.success, true);
+    assert.equal(record.output, '');
+    assert.deepEqual(record.logs, []);
+    assert.equal(record.result, undefined);
+    assert.ok(record.signedProof);
+  });
+
+  it('settles a stream before running it, so a failed settlement streams nothing', async () => {
+    const response = await execute(await signAuthorization(other, { value: 10_000n }), 'application/x-ndjson');
+
+    assert.equal(response.status, 402);
+    const body = await response.json();
+    assert.equal(body.error, 'Settlement Failed');
+    assert.equal(body.details.executionId, undefined);
+    assert.match(body.message, /the code was not run/);
+  });
+});
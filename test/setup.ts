@@ -0,0 +1,16 @@
+/**
+ * Test Environment
+ *
+ * Imported first by every test file, before anything reads the config:
+ * the local network profile and in-memory stores, so tests need no
+ * facilitator and leave ./data alone, and callbacks to 127.0.0.1 allowed
+ * so they can be received in-process. Each test file runs in a process of
+ * its own, so the local facilitator port is derived from the pid.
+ */
+
+process.env.NETWORK_PROFILE = 'local';
+process.env.NONCE_STORE = 'memory';
+process.env.HISTORY_STORE = 'memory';
+process.env.ACCOUNT_STORE = 'memory';
+process.env.CALLBACK_ALLOWED_HOSTS = '127.0.0.1';
+process.env.FACILITATOR_PORT = String(20000 + (process.pid % 20000));
@@ -0,0 +1,179 @@
+import './setup.js';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import { SolanaPaymentAdapter, type PaymentPayload } from '../src/lib/networks/index.js';
+
+const TOKEN_PROGRAM = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+const ASSOCIATED_TOKEN_PROGRAM = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+
+function tokenAccount(owner: PublicKey, mint: PublicKey): PublicKey {
+  return PublicKey.findProgramAddressSync(
+    [owner.toBuffer(), TOKEN_PROGRAM.toBuffer(), mint.toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM
+  )[0];
+}
+
+/**
+ * Stand-in Solana RPC answering the two calls the adapter makes
+ */
+class FakeRpc {
+  liveBlockhashes = new Set<string>();
+  landed = false; // every signature asked about is on chain
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      const context = { slot: 100 };
+      const result = method === 'isBlockhashValid'
+        ? { context, value: this.liveBlockhashes.has(params[0]) }
+        : { context, value: params[0].map(() => this.landed
+            ? { slot: 90, confirmations: null, err: null, confirmationStatus: 'finalized' }
+            : null) };
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+    });
+  });
+}
+
+describe('Solana payment validity', () => {
+  const rpc = new FakeRpc();
+  const payer = Keypair.generate();
+  const facilitator = Keypair.generate();
+  const payTo = Keypair.generate().publicKey;
+  const mint = Keypair.generate().publicKey;
+  let adapter: SolanaPaymentAdapter;
+
+  before(async () => {
+    await new Promise<void>((resolve) => rpc.server.listen(0, '127.0.0.1', resolve));
+    adapter = new SolanaPaymentAdapter({
+      id: 'solana-test',
+      name: 'Solana (test)',
+      rpcUrl: `http://127.0.0.1:${(rpc.server.address() as AddressInfo).port}`,
+      payTo: payTo.toBase58(),
+      usdcMint: mint.toBase58(),
+      testnet: true,
+    });
+  });
+
+  beforeEach(() => {
+    rpc.liveBlockhashes.clear();
+    rpc.landed = false;
+  });
+
+  after(() => {
+    rpc.server.close();
+  });
+
+  /**
+   * Payment transaction for 0.01 USDC, signed by the payer; the
+   * facilitator's fee payer slot is left empty unless the payer pays fees
+   */
+  function payment(options: { feePayer?: Keypair; durableNonce?: boolean } = {}): { payload: PaymentPayload; blockhash: string } {
+    const feePayer = options.feePayer ?? facilitator;
+    const blockhash = Keypair.generate().publicKey.toBase58();
+    const data = Buffer.alloc(10);
+    data.writeUInt8(12, 0);
+    data.writeBigUInt64LE(10_000n, 1);
+    data.writeUInt8(6, 9);
+
+    const instructions = [
+      new TransactionInstruction({
+        programId: TOKEN_PROGRAM,
+        keys: [
+          { pubkey: tokenAccount(payer.publicKey, mint), isSigner: false, isWritable: true },
+          { pubkey: mint, isSigner: false, isWritable: false },
+          { pubkey: tokenAccount(payTo, mint), isSigner: false, isWritable: true },
+          { pubkey: payer.publicKey, isSigner: true, isWritable: false },
+        ],
+        data,
+      }),
+    ];
+    if (options.durableNonce) {
+      instructions.unshift(SystemProgram.nonceAdvance({
+        noncePubkey: Keypair.generate().publicKey,
+        authorizedPubkey: payer.publicKey,
+      }));
+    }
+
+    const transaction = new VersionedTransaction(new TransactionMessage({
+      payerKey: feePayer.publicKey,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message());
+    // Only the payer signs; a facilitator fee payer signs on settlement
+    transaction.sign([payer]);
+
+    return { payload: toPayload(transaction), blockhash };
+  }
+
+  function toPayload(transaction: VersionedTransaction): PaymentPayload {
+    return {
+      scheme: 'exact',
+      network: 'solana-test',
+      signature: Buffer.from(transaction.serialize()).toString('base64'),
+      from: payer.publicKey.toBase58(),
+      to: payTo.toBase58(),
+      value: '10000',
+      // Not covered by the signature, so they must not matter
+      validAfter: '0',
+      validBefore: '99999999999',
+      nonce: 'unused',
+    };
+  }
+
+  it('keeps the authorization for the blockhash lifetime, not the unsigned validBefore', async () => {
+    const { payload, blockhash } = payment();
+    rpc.liveBlockhashes.add(blockhash);
+
+    assert.equal(await adapter.verifyAuthorization(payload), undefined);
+    const validity = await adapter.validity(payload);
+    assert.ok('validBefore' in validity, JSON.stringify(validity));
+    const now = Math.floor(Date.now() / 1000);
+    assert.ok(validity.validBefore > now && validity.validBefore <= now + 600);
+  });
+
+  it('rejects a transaction whose blockhash has expired', async () => {
+    const { payload } = payment();
+
+    assert.deepEqual(await adapter.validity(payload), {
+      error: 'Payment transaction expired: its recent blockhash is no longer valid',
+    });
+  });
+
+  it('rejects a transaction that is already on chain', async () => {
+    const { payload, blockhash } = payment({ feePayer: payer });
+    rpc.liveBlockhashes.add(blockhash);
+    rpc.landed = true;
+
+    assert.equal(await adapter.verifyAuthorization(payload), undefined);
+    assert.deepEqual(await adapter.validity(payload), { error: 'Payment transaction is already on chain' });
+  });
+
+  it('cannot have landed while the fee payer has not signed', async () => {
+    const { payload, blockhash } = payment();
+    rpc.liveBlockhashes.add(blockhash);
+    rpc.landed = true;
+
+    assert.ok('validBefore' in await adapter.validity(payload));
+  });
+
+  it('rejects durable nonce transactions, which never expire', async () => {
+    const { payload, blockhash } = payment({ durableNonce: true });
+    rpc.liveBlockhashes.add(blockhash);
+
+    assert.deepEqual(await adapter.validity(payload), {
+      error: 'Durable nonce payment transactions are not accepted',
+    });
+  });
+});
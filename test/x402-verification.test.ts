@@ -0,0 +1,64 @@
+import './setup.js';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import { x402Manager } from '../src/lib/x402-payment.js';
+import { createPayer, localAdapter, signAuthorization, startFacilitator } from './payments.js';
+
+describe('local EIP-3009 verification', () => {
+  const payer = createPayer();
+  let facilitator: Server;
+
+  before(async () => {
+    const { ledger, server } = await startFacilitator();
+    ledger.mint(payer.address, 1_000_000n);
+    facilitator = server;
+  });
+
+  after(() => {
+    facilitator.close();
+  });
+
+  it('recovers the payer from a locally signed authorization', async () => {
+    const payload = await signAuthorization(payer, { value: 10_000n });
+
+    assert.equal(await localAdapter.verifyAuthorization(payload), undefined);
+  });
+
+  it('rejects an authorization signed by someone else', async () => {
+    const payload = await signAuthorization(createPayer(), { value: 10_000n });
+
+    assert.equal(await localAdapter.verifyAuthorization({ ...payload, from: payer.address }), 'Invalid payment signature');
+  });
+
+  it('rejects an authorization whose value was changed after signing', async () => {
+    const payload = await signAuthorization(payer, { value: 10_000n });
+
+    const result = await x402Manager.verifyPayment({ ...payload, value: '50000' }, 0.01);
+    assert.deepEqual(result, { valid: false, error: 'Invalid payment signature' });
+  });
+
+  it('rejects authorizations below the price, to another wallet or out of their window', async () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    const low = await x402Manager.verifyPayment(await signAuthorization(payer, { value: 5_000n }), 0.01);
+    assert.match(low.error!, /Insufficient payment/);
+
+    const elsewhere = await x402Manager.verifyPayment(
+      await signAuthorization(payer, { value: 10_000n, to: createPayer().address }), 0.01);
+    assert.equal(elsewhere.error, 'Invalid recipient address');
+
+    const expired = await x402Manager.verifyPayment(
+      await signAuthorization(payer, { value: 10_000n, validAfter: now - 600, validBefore: now - 300 }), 0.01);
+    assert.equal(expired.error, 'Payment authorization expired');
+  });
+
+  it('accepts a valid authorization once', async () => {
+    const payload = await signAuthorization(payer, { value: 10_000n });
+
+    assert.deepEqual(await x402Manager.verifyPayment(payload, 0.01), { valid: true, transactionHash: undefined });
+
+    const replay = await x402Manager.verifyPayment(payload, 0.01);
+    assert.equal(replay.error, 'Payment authorization already used');
+  });
+});